@@ -38,6 +38,16 @@ export type VisitFlowControlReplace = {
   readonly then: VisitFlowControlThen;
 };
 
+/**
+ * Flow control type that indicates the current node should be replaced with a new value,
+ * which is then visited again in place of the original.
+ */
+export type VisitFlowControlReplaceAndRevisit = {
+  readonly type: "replace_and_revisit";
+  /** The new value to replace the current node with */
+  readonly value: unknown;
+};
+
 /**
  * Flow control type that indicates the current node should be deleted from its parent's children array.
  */
@@ -46,6 +56,66 @@ export type VisitFlowControlDelete = {
   /** The flow control action to take after deletion */
   readonly then: VisitFlowControlThen;
 };
+/**
+ * Flow control type that indicates values should be inserted before the current node, in the array
+ * holding it.
+ */
+export type VisitFlowControlInsertBefore = {
+  readonly type: "insert_before";
+  /** The values to insert */
+  readonly values: readonly unknown[];
+  /** The flow control action to take for the current node after insertion */
+  readonly then: VisitFlowControlThen;
+};
+
+/**
+ * Flow control type that indicates values should be inserted after the current node, in the array
+ * holding it.
+ */
+export type VisitFlowControlInsertAfter = {
+  readonly type: "insert_after";
+  /** The values to insert */
+  readonly values: readonly unknown[];
+  /** The flow control action to take for the current node after insertion */
+  readonly then: VisitFlowControlThen;
+};
+
+/**
+ * Flow control type that indicates the current node should be replaced with any number of values,
+ * in the array holding it.
+ */
+export type VisitFlowControlReplaceWithMany = {
+  readonly type: "replace_with_many";
+  /** The values to replace the current node with */
+  readonly values: readonly unknown[];
+  /** The flow control action to take after replacement */
+  readonly then: VisitFlowControlThen;
+};
+
+/**
+ * Flow control type that indicates the current node should be moved to another key of the object
+ * or `Map` holding it.
+ */
+export type VisitFlowControlRename = {
+  readonly type: "rename";
+  /** The new key of the current node */
+  readonly newKey: unknown;
+  /** The flow control action to take for the current node after renaming */
+  readonly then: VisitFlowControlThen;
+};
+
+/**
+ * Flow control type that indicates the current node should be moved to another location of the
+ * data structure.
+ */
+export type VisitFlowControlMove = {
+  readonly type: "move";
+  /** Keys leading from the root to the destination */
+  readonly path: readonly unknown[];
+  /** The flow control action to take after moving */
+  readonly then: VisitFlowControlThen;
+};
+
 /**
  * Union type for flow control actions that can be used after replacement or deletion operations.
  */
@@ -56,11 +126,18 @@ export type VisitFlowControlThen =
   | VisitFlowControlExit;
 
 /**
- * Union type for flow control actions that modify the tree structure (replace or delete).
+ * Union type for flow control actions that modify the tree structure (replace, delete, insert,
+ * rename or move).
  */
 export type VisitFlowControlUpdator =
   | VisitFlowControlReplace
-  | VisitFlowControlDelete;
+  | VisitFlowControlReplaceAndRevisit
+  | VisitFlowControlDelete
+  | VisitFlowControlInsertBefore
+  | VisitFlowControlInsertAfter
+  | VisitFlowControlReplaceWithMany
+  | VisitFlowControlRename
+  | VisitFlowControlMove;
 
 /**
  * Union type representing all possible flow control actions during tree traversal.
@@ -73,8 +150,218 @@ export type VisitFlowControl = VisitFlowControlThen | VisitFlowControlUpdator;
 export type ParentInfo = {
   /** The parent node object */
   readonly node: unknown;
-  /** The property name or array index where this node is located in the parent */
-  readonly key: string | number;
+  /**
+   * Where this node is located in the parent: the property name (a string, or a symbol with
+   * `includeSymbols`), the array or typed array index, the `Map` key or the `Set` member itself.
+   * Narrow it before use, e.g. `typeof key === "string"`; it was `string | number` before `Map`
+   * and `Set` children were traversed.
+   */
+  readonly key: unknown;
+};
+
+/**
+ * Additional information passed to the visitor along with the parents.
+ * Like the parent information, it is only valid until the visitor returns or resolves.
+ */
+export type VisitContext = {
+  /** The `signal` option, to cancel async work started by the visitor */
+  readonly signal: AbortSignal | undefined;
+  /** Keys leading from the root to the current value, empty for the root */
+  readonly path: readonly unknown[];
+  /** JSON Pointer (RFC 6901) of the current value, `""` for the root */
+  readonly jsonPointer: string;
+  /** Number of ancestors of the current value, 0 for the root */
+  readonly depth: number;
+  /** Key of the current value in its parent, `undefined` for the root */
+  readonly key: unknown;
+  /** The container holding the current value, `undefined` for the root */
+  readonly parent: unknown;
+  /** Whether the current value is the root */
+  readonly isRoot: boolean;
+};
+
+/**
+ * Value yielded by `walk` and `walkAsync`, along with its location.
+ * Unlike the parent information passed to visitors, it stays valid once the iteration moved on.
+ */
+export type WalkEntry<T> = VisitContext & {
+  /** The current value */
+  readonly value: RecursiveChildren<T>;
+  /** Parent information of the current value, from the root */
+  readonly parents: readonly ParentInfo[];
+};
+
+/**
+ * Predicate called on values by `find`, `findAll`, `some`, `every` and `count`.
+ */
+export type VisitPredicate<T> = (
+  node: RecursiveChildren<T>,
+  parents: readonly ParentInfo[],
+  context: VisitContext,
+) => boolean;
+
+/**
+ * Async counterpart of `VisitPredicate`, which may return a Promise.
+ */
+export type AsyncVisitPredicate<T> = (
+  node: RecursiveChildren<T>,
+  parents: readonly ParentInfo[],
+  context: VisitContext,
+) => boolean | Promise<boolean>;
+
+/**
+ * A value found by `find` or `findAll`, along with its key path from the root.
+ */
+export type FindResult<T> = {
+  /** The value found */
+  readonly value: RecursiveChildren<T>;
+  /** Keys leading from the root to the value */
+  readonly path: readonly unknown[];
+};
+
+/**
+ * Functions computing the result of each value from the results of its children, for `fold`.
+ */
+export type FoldReducer<T, R> = {
+  /**
+   * Computes the result of a value that is not a container, such as a primitive. Empty objects and
+   * arrays are containers, handed to `combine` with no results.
+   */
+  readonly leaf: (
+    node: RecursiveChildren<T>,
+    parents: readonly ParentInfo[],
+    context: VisitContext,
+  ) => R;
+  /**
+   * Computes the result of a container, even empty, from the results of its children, keyed as in
+   * the parent information and in traversal order
+   */
+  readonly combine: (
+    node: RecursiveChildren<T>,
+    results: ReadonlyMap<unknown, R>,
+    parents: readonly ParentInfo[],
+    context: VisitContext,
+  ) => R;
+};
+
+/**
+ * Async counterpart of `FoldReducer`, whose functions may return a Promise.
+ */
+export type AsyncFoldReducer<T, R> = {
+  /**
+   * Computes the result of a value that is not a container, such as a primitive. Empty objects and
+   * arrays are containers, handed to `combine` with no results.
+   */
+  readonly leaf: (
+    node: RecursiveChildren<T>,
+    parents: readonly ParentInfo[],
+    context: VisitContext,
+  ) => R | Promise<R>;
+  /**
+   * Computes the result of a container, even empty, from the results of its children, keyed as in
+   * the parent information and in traversal order
+   */
+  readonly combine: (
+    node: RecursiveChildren<T>,
+    results: ReadonlyMap<unknown, R>,
+    parents: readonly ParentInfo[],
+    context: VisitContext,
+  ) => R | Promise<R>;
+};
+
+/**
+ * JSON Patch (RFC 6902) operation adding `value` at `path`.
+ */
+export type JsonPatchAddOperation = {
+  readonly op: "add";
+  /** JSON Pointer (RFC 6901) of the value to add */
+  readonly path: string;
+  /** The value to add */
+  readonly value: unknown;
+};
+
+/**
+ * JSON Patch (RFC 6902) operation removing the value at `path`.
+ */
+export type JsonPatchRemoveOperation = {
+  readonly op: "remove";
+  /** JSON Pointer (RFC 6901) of the value to remove */
+  readonly path: string;
+};
+
+/**
+ * JSON Patch (RFC 6902) operation replacing the value at `path` with `value`.
+ */
+export type JsonPatchReplaceOperation = {
+  readonly op: "replace";
+  /** JSON Pointer (RFC 6901) of the value to replace */
+  readonly path: string;
+  /** The new value */
+  readonly value: unknown;
+};
+
+/**
+ * JSON Patch (RFC 6902) operation moving the value at `from` to `path`.
+ */
+export type JsonPatchMoveOperation = {
+  readonly op: "move";
+  /** JSON Pointer (RFC 6901) of the value to move */
+  readonly from: string;
+  /** JSON Pointer (RFC 6901) of the destination */
+  readonly path: string;
+};
+
+/**
+ * Union type of the JSON Patch operations produced by `diff` and the `onPatch` option.
+ */
+export type JsonPatchOperation =
+  | JsonPatchAddOperation
+  | JsonPatchRemoveOperation
+  | JsonPatchReplaceOperation
+  | JsonPatchMoveOperation;
+
+/**
+ * Options for `diff`.
+ */
+export type DiffOptions = {
+  /**
+   * Defines which children are compared. Defaults to `defaultAdapter`.
+   */
+  readonly adapter?: VisitAdapter;
+  /**
+   * Identifies array elements across both versions, by the value of a property or by a function,
+   * so that inserting or removing an element does not change the following ones.
+   * Arrays are compared by index when omitted.
+   */
+  readonly arrayIdentity?: string | ((item: unknown) => unknown);
+};
+
+/**
+ * An update made during a traversal, as reported to the `onChange` option.
+ */
+export type VisitChange = {
+  /** Whether the value was replaced, deleted, inserted, or renamed or moved */
+  readonly type: "replace" | "delete" | "insert" | "move";
+  /** Keys leading from the root to the value at the time of the update */
+  readonly path: readonly unknown[];
+  /** Keys leading from the root to the value before it was renamed or moved, only for moves */
+  readonly from?: readonly unknown[];
+  /** JSON Pointer (RFC 6901) of the value at the time of the update */
+  readonly jsonPointer: string;
+  /** The value before the update, `undefined` when it was inserted */
+  readonly oldValue: unknown;
+  /** The value after the update, `undefined` when it was deleted */
+  readonly newValue: unknown;
+};
+
+/**
+ * Options for `applyPatch`.
+ */
+export type ApplyPatchOptions = {
+  /**
+   * Defines how children are found and updated. Defaults to `defaultAdapter`.
+   */
+  readonly adapter?: VisitAdapter;
 };
 
 /**
@@ -114,6 +401,139 @@ export const REPLACE = (
   then: VisitFlowControlThen,
 ): VisitFlowControlReplace => Object.freeze({ type: "replace", value, then });
 
+/**
+ * Creates a flow control action to replace the current node with a new value and visit the new value
+ * again, as if it had been there from the start. The visitor's answer for the new value decides what
+ * happens next, including whether its children are visited.
+ *
+ * Returning a value identical to the current one does not trigger another visit, and the number of
+ * consecutive revisits of a position is limited by the `maxRevisits` option.
+ *
+ * @param value - The new value to replace the current node with
+ * @returns A replace-and-revisit flow control object
+ *
+ * @example
+ * ```ts
+ * // Expand macros until no macro is left at this position
+ * return isMacro(value) ? REPLACE_AND_REVISIT(expand(value)) : CONTINUE;
+ * ```
+ */
+export const REPLACE_AND_REVISIT = (
+  value: unknown,
+): VisitFlowControlReplaceAndRevisit =>
+  Object.freeze({ type: "replace_and_revisit", value });
+
+/**
+ * Creates a flow control action to insert values before the current node, which must be an array
+ * element. The inserted values are not visited, as they come before the current position.
+ *
+ * @param values - The values to insert
+ * @param then - The flow control action to take for the current node
+ * @returns An insert-before flow control object
+ *
+ * @example
+ * ```ts
+ * // Add a separator before each section, and visit the section as usual
+ * return isSection(value) ? INSERT_BEFORE([{ type: "separator" }], CONTINUE) : CONTINUE;
+ * ```
+ */
+export const INSERT_BEFORE = (
+  values: readonly unknown[],
+  then: VisitFlowControlThen,
+): VisitFlowControlInsertBefore =>
+  Object.freeze({ type: "insert_before", values, then });
+
+/**
+ * Creates a flow control action to insert values after the current node, which must be an array
+ * element. The inserted values are visited as the following siblings of the current node, unless
+ * `then` is `BREAK` or `EXIT`.
+ *
+ * @param values - The values to insert
+ * @param then - The flow control action to take for the current node
+ * @returns An insert-after flow control object
+ *
+ * @example
+ * ```ts
+ * // Duplicate each item
+ * return isItem(value) ? INSERT_AFTER([structuredClone(value)], STEP_OVER) : CONTINUE;
+ * ```
+ */
+export const INSERT_AFTER = (
+  values: readonly unknown[],
+  then: VisitFlowControlThen,
+): VisitFlowControlInsertAfter =>
+  Object.freeze({ type: "insert_after", values, then });
+
+/**
+ * Creates a flow control action to replace the current node, which must be an array element, with
+ * any number of values. As after `DELETE`, the children of the current node are not visited, and
+ * the new values are visited next, in its place, unless `then` is `BREAK` or `EXIT`.
+ * An empty array of values deletes the current node.
+ *
+ * @param values - The values to replace the current node with
+ * @param then - The flow control action to take after replacement
+ * @returns A replace-with-many flow control object
+ *
+ * @example
+ * ```ts
+ * // Expand macros, and visit the expanded values in turn
+ * return isMacro(value) ? REPLACE_WITH_MANY(expand(value), CONTINUE) : CONTINUE;
+ * ```
+ */
+export const REPLACE_WITH_MANY = (
+  values: readonly unknown[],
+  then: VisitFlowControlThen,
+): VisitFlowControlReplaceWithMany =>
+  Object.freeze({ type: "replace_with_many", values, then });
+
+/**
+ * Creates a flow control action to move the current node, which must be an object property or a
+ * `Map` entry, to another key of the same container. Its position among the other keys is kept
+ * when the adapter allows it, and it is not visited again under its new key.
+ *
+ * @param newKey - The new key of the current node, which must not be in use
+ * @param then - The flow control action to take for the current node
+ * @returns A rename flow control object
+ *
+ * @example
+ * ```ts
+ * // Convert snake_case properties to camelCase
+ * const key = parents.at(-1)?.key;
+ * return typeof key === "string" && key.includes("_")
+ *   ? RENAME(key.replace(/_(\w)/g, (_, c) => c.toUpperCase()), CONTINUE)
+ *   : CONTINUE;
+ * ```
+ */
+export const RENAME = (
+  newKey: unknown,
+  then: VisitFlowControlThen,
+): VisitFlowControlRename => Object.freeze({ type: "rename", newKey, then });
+
+/**
+ * Creates a flow control action to move the current node to another location, given by the keys
+ * leading to it from the root, as found before the node is removed. The destination must be a new
+ * key of an object or `Map`, or the end of an array. As after `DELETE`, the children of the
+ * current node are not visited; the node is visited again if the traversal reaches its
+ * destination afterwards, so the visitor must not move it again from there, or the traversal
+ * never ends. Not supported in copy-on-write traversals and dry runs.
+ *
+ * @param path - Keys leading from the root to the destination
+ * @param then - The flow control action to take after moving
+ * @returns A move flow control object
+ *
+ * @example
+ * ```ts
+ * // Gather the footnotes of the body at the end of the document, leaving those already gathered
+ * return isFootnote(value) && parents.at(-2)?.key === "body"
+ *   ? MOVE(["footnotes", document.footnotes.length], CONTINUE)
+ *   : CONTINUE;
+ * ```
+ */
+export const MOVE = (
+  path: readonly unknown[],
+  then: VisitFlowControlThen,
+): VisitFlowControlMove => Object.freeze({ type: "move", path, then });
+
 /**
  * Flow control constant that stops processing siblings at the current level.
  * The traversal will return to the parent level and continue with the next sibling of the parent.
@@ -166,6 +586,12 @@ type RecursiveChildren<T, depth = ".........."> = depth extends
   `.${infer nextDepth}`
   ? T extends readonly (infer U)[]
     ? NonAny<T> | NonAny<U> | RecursiveChildren<U, nextDepth>
+  : T extends ReadonlyMap<unknown, infer V>
+    ? NonAny<T> | NonAny<V> | RecursiveChildren<V, nextDepth>
+  : T extends ReadonlySet<infer U>
+    ? NonAny<T> | NonAny<U> | RecursiveChildren<U, nextDepth>
+  : T extends BigInt64Array | BigUint64Array ? T | bigint
+  : T extends ArrayBufferView ? T | number
   : T extends object ?
       | NonAny<T>
       | {
@@ -177,229 +603,436 @@ type RecursiveChildren<T, depth = ".........."> = depth extends
   : never;
 
 /**
- * Synchronously traverses any data structure, calling a visitor function for each value.
- *
- * Visits all object properties and array elements recursively. The visitor function can
- * return flow control instructions to modify traversal behavior, replace values, or delete values.
+ * Function called for each value during traversal.
  *
- * @template T - The type of the root data structure
- * @param node - The root data structure to start traversal from
- * @param visitor - Function called for each value. Receives the current value and array of parent information.
- *                  Can return flow control instructions or void/undefined to continue normally.
+ * Receives the current value, the array of parent information and the visit context, and can
+ * return flow control instructions or void/undefined to continue normally.
+ */
+export type VisitorFunction<T> = (
+  node: RecursiveChildren<T>,
+  parents: readonly ParentInfo[],
+  context: VisitContext,
+) => VisitFlowControl | void;
+
+/**
+ * Visitor with separate callbacks for entering and leaving a value.
  *
- * @example
- * ```ts
- * const data = {
- *   name: "root",
- *   items: [
- *     { type: "item", value: 1 },
- *     { type: "item", value: 2 }
- *   ],
- *   config: { enabled: true }
- * };
+ * `enter` is called before the children of a value are visited (pre-order) and
+ * `leave` after all of them have been processed (post-order).
+ */
+export type VisitorObject<T> = {
+  /** Called before the children of the value are visited */
+  readonly enter?: VisitorFunction<T>;
+  /** Called after the children of the value have been visited */
+  readonly leave?: VisitorFunction<T>;
+};
+
+/**
+ * Visitor made of functions keyed by selectors, each only called on the values whose key path
+ * matches its selector.
  *
- * visit(data, (value, parents) => {
- *   console.log(`Visiting:`, value, `at depth: ${parents.length}`);
- *   if (typeof value === "object" && value?.type === "item" && value.value === 1) {
- *     return REPLACE({ ...value, value: 99 }, CONTINUE);
- *   }
- *   return CONTINUE;
- * });
- * ```
+ * Selectors are JSONPath-like: `$` is the root, followed by `.name` or `['name']` for a property,
+ * `[0]` for an index, `.*` or `[*]` for any key, and `..` before any of those to match at any
+ * depth, as in `$.users[*].email` or `$..settings.theme`. When several selectors match a value,
+ * their functions are called in order until one returns something else than `CONTINUE`.
+ * Subtrees where no selector can match anymore are not traversed.
  */
-export const visit = <T>(
-  node: T,
-  visitor: (
-    node: RecursiveChildren<T>,
+export type SelectorVisitor<T> = {
+  readonly [selector: `$${string}`]: VisitorFunction<T>;
+};
+
+/**
+ * Visitor accepted by `visit`: either a single pre-order function, an `{ enter, leave }` object or
+ * a map of selectors to functions.
+ */
+export type Visitor<T> =
+  | VisitorFunction<T>
+  | VisitorObject<T>
+  | SelectorVisitor<T>;
+
+/**
+ * Async counterpart of `VisitorFunction`, which may return a Promise.
+ */
+export type AsyncVisitorFunction<T> = (
+  node: RecursiveChildren<T>,
+  parents: readonly ParentInfo[],
+  context: VisitContext,
+) => VisitFlowControl | void | Promise<VisitFlowControl | void>;
+
+/**
+ * Async counterpart of `VisitorObject`.
+ */
+export type AsyncVisitorObject<T> = {
+  /** Called before the children of the value are visited */
+  readonly enter?: AsyncVisitorFunction<T>;
+  /** Called after the children of the value have been visited */
+  readonly leave?: AsyncVisitorFunction<T>;
+};
+
+/**
+ * Async counterpart of `SelectorVisitor`.
+ */
+export type AsyncSelectorVisitor<T> = {
+  readonly [selector: `$${string}`]: AsyncVisitorFunction<T>;
+};
+
+/**
+ * Visitor accepted by `visitAsync`: either a single pre-order function, an `{ enter, leave }`
+ * object or a map of selectors to functions.
+ */
+export type AsyncVisitor<T> =
+  | AsyncVisitorFunction<T>
+  | AsyncVisitorObject<T>
+  | AsyncSelectorVisitor<T>;
+
+/**
+ * The values found in `T` that are assignable to `U`, or `U` itself when there is none.
+ * @internal
+ */
+type Narrow<T, U> = [Extract<RecursiveChildren<T>, U>] extends [never] ? U
+  : Extract<RecursiveChildren<T>, U>;
+
+/**
+ * The values found in `T` that have a string `type` discriminant.
+ * @internal
+ */
+type TypedChildren<T> = Extract<
+  RecursiveChildren<T>,
+  { readonly type: string }
+>;
+
+/**
+ * Functions keyed by the `type` discriminant of the values they are called on, each receiving
+ * the matching members of the union of values found in `T`.
+ */
+export type TypeVisitor<T> = {
+  readonly [K in TypedChildren<T>["type"]]?: (
+    node: Extract<TypedChildren<T>, { readonly type: K }>,
     parents: readonly ParentInfo[],
-  ) => VisitFlowControl | void,
-): void => {
-  const parents: ParentInfo[] = [];
-  const control = visitor(node as any, parents) ?? { type: "continue" };
-  switch (control.type) {
-    case "continue":
-      break;
-    case "step_over":
-      return;
-    case "break":
-      return;
-    case "exit":
-      return;
-    case "replace":
-      throw new Error(`Root node cannot be replaced`);
-    case "delete":
-      throw new Error(`Root node cannot be deleted`);
-    default:
-      throw new Error(
-        `Unknown control type: ${
-          (control satisfies never as { type: 0 }).type
-        }`,
-      );
-  }
-  let exitting = false;
-  const dfs = (node: unknown) => {
-    if (typeof node === "object" && node !== null) {
-      if (Array.isArray(node)) {
-        // Handle arrays
-        for (let index = 0; index < node.length; index++) {
-          const child: unknown = node[index];
-          parents.push({ node, key: index });
-          let control = visitor(child as any, parents) ?? { type: "continue" };
-          if (control.type === "replace") {
-            node[index] = control.value;
-            control = control.then;
-          } else if (control.type === "delete") {
-            node.splice(index, 1);
-            index--;
-            if (
-              control.then.type === "continue" ||
-              control.then.type === "step_over"
-            ) {
-              continue;
-            } else if (control.then.type === "break") {
-              return;
-            } else if (control.then.type === "exit") {
-              exitting = true;
-              return;
-            } else {
-              throw new Error(
-                `Unknown control type: ${
-                  (control.then satisfies never as { type: 0 }).type
-                }`,
-              );
-            }
-          }
-          if (control.type === "continue") {
-            dfs(child);
-            if (exitting) return;
-          } else if (control.type === "step_over") {
-            continue;
-          } else if (control.type === "break") {
-            return;
-          } else if (control.type === "exit") {
-            exitting = true;
-            return;
-          } else {
-            throw new Error(
-              `Unknown control type: ${
-                (control satisfies never as { type: 0 }).type
-              }`,
-            );
-          }
-          parents.pop();
-        }
-      } else {
-        // Handle objects
-        for (const key in node) {
-          if (Object.prototype.hasOwnProperty.call(node, key)) {
-            const child: unknown = (node as any)[key];
-            parents.push({ node, key });
-            let control = visitor(child as any, parents) ??
-              { type: "continue" };
-            if (control.type === "replace") {
-              (node as any)[key] = control.value;
-              control = control.then;
-            } else if (control.type === "delete") {
-              delete (node as any)[key];
-              if (
-                control.then.type === "continue" ||
-                control.then.type === "step_over"
-              ) {
-                continue;
-              } else if (control.then.type === "break") {
-                return;
-              } else if (control.then.type === "exit") {
-                exitting = true;
-                return;
-              } else {
-                throw new Error(
-                  `Unknown control type: ${
-                    (control.then satisfies never as { type: 0 }).type
-                  }`,
-                );
-              }
-            }
-            if (control.type === "continue") {
-              dfs(child);
-              if (exitting) return;
-            } else if (control.type === "step_over") {
-              continue;
-            } else if (control.type === "break") {
-              return;
-            } else if (control.type === "exit") {
-              exitting = true;
-              return;
-            } else {
-              throw new Error(
-                `Unknown control type: ${
-                  (control satisfies never as { type: 0 }).type
-                }`,
-              );
-            }
-            parents.pop();
-          }
-        }
-      }
-    }
-  };
-  dfs(node);
+    context: VisitContext,
+  ) => VisitFlowControl | void;
 };
 
 /**
- * Asynchronously traverses any data structure, calling a visitor function for each value.
+ * Async counterpart of `TypeVisitor`.
+ */
+export type AsyncTypeVisitor<T> = {
+  readonly [K in TypedChildren<T>["type"]]?: (
+    node: Extract<TypedChildren<T>, { readonly type: K }>,
+    parents: readonly ParentInfo[],
+    context: VisitContext,
+  ) => VisitFlowControl | void | Promise<VisitFlowControl | void>;
+};
+
+/**
+ * Handler invoked when a value that was already visited is reached again.
  *
- * Similar to the synchronous `visit` function, but supports async visitor functions
- * that can perform asynchronous operations like API calls, file I/O, etc.
- * Visits all object properties and array elements recursively.
- *
- * @template T - The type of the root data structure
- * @param node - The root data structure to start traversal from
- * @param visitor - Async function called for each value. Receives the current value and array of parent information.
- *                  Can return flow control instructions, a Promise resolving to flow control instructions,
- *                  or void/undefined to continue normally.
+ * Receives the repeated value, the parent information of the current occurrence and that of the
+ * first occurrence.
+ */
+export type VisitCycleHandler = (
+  node: unknown,
+  parents: readonly ParentInfo[],
+  firstParents: readonly ParentInfo[],
+) => VisitFlowControl | void;
+
+/**
+ * What to do when an already visited object is reached again.
  *
- * @example
- * ```ts
- * const data = {
- *   name: "api-root",
- *   endpoints: [
- *     { type: "api-node", url: "/api/data" },
- *     { type: "static", content: "hello" }
- *   ]
- * };
+ * - `"skip"`: the value is skipped without calling the visitor
+ * - `"throw"`: an error containing both key paths is thrown
+ * - a handler: called instead of the visitor, and its flow control is applied
+ */
+export type VisitCyclePolicy = "skip" | "throw" | VisitCycleHandler;
+
+/**
+ * Children of a value, as returned by `VisitAdapter.getChildren`.
  *
- * await visitAsync(data, async (value, parents) => {
- *   if (typeof value === "object" && value?.type === "api-node") {
- *     const response = await fetch(value.url);
- *     const data = await response.json();
- *     return REPLACE({ ...value, data }, CONTINUE);
- *   }
- *   return CONTINUE;
- * });
- * ```
+ * An array is visited as a live list addressed by index: its length is read on every step, and
+ * deleting a child is expected to shift the following ones down like `splice`.
+ * Any other iterable yields `[key, value]` entries and is consumed lazily.
  */
-export const visitAsync = async <T>(
-  node: T,
-  visitor: (
-    node: RecursiveChildren<T>,
-    parents: readonly ParentInfo[],
-  ) => VisitFlowControl | void | Promise<VisitFlowControl | void>,
-): Promise<void> => {
+export type VisitChildren =
+  | readonly unknown[]
+  | Iterable<readonly [key: unknown, value: unknown]>;
+
+/**
+ * Which own properties of objects are enumerated, as requested by the `includeSymbols` and
+ * `includeNonEnumerable` options.
+ */
+export type VisitEnumeration = {
+  /** Whether symbol-keyed properties are included */
+  readonly symbols: boolean;
+  /** Whether non-enumerable properties are included */
+  readonly nonEnumerable: boolean;
+};
+
+/**
+ * Defines which children of a value are visited and how they are updated.
+ */
+export type VisitAdapter = {
+  /**
+   * Returns the children to visit of `node`, or `undefined` when it has none. Adapters visiting
+   * object properties should follow `enumeration` when given, and only include the own enumerable
+   * string-keyed properties otherwise.
+   */
+  readonly getChildren: (
+    node: unknown,
+    enumeration?: VisitEnumeration,
+  ) => VisitChildren | undefined;
+  /** Stores `value` as the child of `node` at `key`, as requested by `REPLACE` */
+  readonly setChild: (node: unknown, key: unknown, value: unknown) => void;
+  /** Removes the child of `node` at `key`, as requested by `DELETE` */
+  readonly deleteChild: (node: unknown, key: unknown) => void;
+  /**
+   * Returns a shallow copy of `node` whose children can be updated without affecting `node`.
+   * Required by copy-on-write traversals such as `transform`.
+   */
+  readonly clone?: (node: unknown) => unknown;
+  /**
+   * Inserts `values` before `index` among the children of `node`, when they are listed as an
+   * array. Required by `INSERT_BEFORE`, `INSERT_AFTER` and `REPLACE_WITH_MANY`.
+   */
+  readonly insertChildren?: (
+    node: unknown,
+    index: number,
+    values: readonly unknown[],
+  ) => void;
+  /**
+   * Moves the child of `node` at `key` to `newKey`, keeping its position among the other children
+   * when possible. Required by `RENAME`.
+   */
+  readonly renameChild?: (node: unknown, key: unknown, newKey: unknown) => void;
+};
+
+/**
+ * Options for `visit` and `visitAsync`.
+ */
+export type VisitOptions = {
+  /**
+   * Tracks visited objects to detect cycles and shared references.
+   * The children of a repeated value are never visited again, whatever the policy returns.
+   * Tracking is disabled when omitted.
+   */
+  readonly cycles?: VisitCyclePolicy;
+  /**
+   * When true, `REPLACE(value, CONTINUE)` descends into the replacement value instead of the
+   * original one. Values equal to the replaced one that are found inside the replacement are not
+   * handed to the visitor again, so wrapping a value into a new one does not expand forever.
+   * Defaults to false.
+   */
+  readonly descendIntoReplacement?: boolean;
+  /**
+   * Maximum number of times a single position can be revisited through `REPLACE_AND_REVISIT`
+   * before an error is thrown. Defaults to 100.
+   */
+  readonly maxRevisits?: number;
+  /**
+   * Defines which children are visited and how they are updated.
+   * Defaults to `defaultAdapter`.
+   */
+  readonly adapter?: VisitAdapter;
+  /**
+   * Maximum number of visitor calls in flight at once in `visitAsync` and `transformAsync`,
+   * ignored by synchronous traversals. Defaults to 1.
+   *
+   * When greater than 1, the children of a value are all entered concurrently before any of their
+   * own children is visited, and the returned flow controls are then applied in order. Once a child
+   * asks to break or exit, no call is started for its following siblings and the results of those
+   * already in flight are discarded.
+   *
+   * The parent information of these calls is that of the time they start: keys and paths do not
+   * account for the siblings deleted or inserted by the flow controls of the preceding ones, so
+   * visitors and selectors depending on them may see other paths than with a concurrency of 1.
+   * With `cycles`, a value found several times among the children is only entered once, but one
+   * also found among the descendants of a preceding sibling may be entered at both places.
+   */
+  readonly concurrency?: number;
+  /**
+   * Stops the traversal once aborted: no visitor call is started afterwards, and the traversal
+   * throws, or rejects with, the reason of the signal. It is also passed to the visitor through
+   * the context, so that the async work it starts can be cancelled as well.
+   */
+  readonly signal?: AbortSignal;
+  /**
+   * Traversal order: `"dfs"` for depth-first pre-order, or `"bfs"` to visit all the values at a
+   * given depth before going deeper. Leave visitors are not supported in breadth-first order.
+   * Defaults to `"dfs"`.
+   */
+  readonly order?: "dfs" | "bfs";
+  /**
+   * Called after each update made by a flow control, with the JSON Patch (RFC 6902) operation
+   * describing it: `replace` for `REPLACE` and `REPLACE_AND_REVISIT`, `remove` for `DELETE`, `add`
+   * for each value inserted by `INSERT_BEFORE`, `INSERT_AFTER` and `REPLACE_WITH_MANY`, the latter
+   * after a `remove`, and `move` for `RENAME` and `MOVE`. Paths are those of the values at the
+   * time of the update, so array indices account for the elements deleted or inserted before, and
+   * the operations can be replayed in order with `applyPatch`. Replacing a value with itself is
+   * not reported, nor are the updates made inside an original value after its replacement, which
+   * do not reach the result.
+   *
+   * Values are passed as they are: copy or serialize them right away when the traversal may
+   * update them afterwards, as with `descendIntoReplacement`.
+   */
+  readonly onPatch?: (operation: JsonPatchOperation) => void;
+  /**
+   * Called after each update, like `onPatch`, with the location of the value and both its old
+   * and new values.
+   */
+  readonly onChange?: (change: VisitChange) => void;
+  /**
+   * When true, updates are applied to copies instead of the data structure, as in `transform`, and
+   * dropped at the end: the input is left untouched and the traversal returns it, while the
+   * visitor still sees the data as if the updates had been applied, including shifted array
+   * indices after a deletion. Use `onChange` to see the planned updates. The adapter must
+   * implement `clone`. Defaults to false.
+   */
+  readonly dryRun?: boolean;
+  /**
+   * When true, the symbol-keyed own properties of objects are visited too. Followed by the
+   * built-in adapters. Defaults to false.
+   */
+  readonly includeSymbols?: boolean;
+  /**
+   * When true, the non-enumerable own properties of objects are visited too. Followed by the
+   * built-in adapters. Defaults to false.
+   */
+  readonly includeNonEnumerable?: boolean;
+  /**
+   * Visits the children of objects, `Map` and `Set` in key order instead of insertion order:
+   * `true` compares the keys formatted by `String`, numbers numerically, and a function compares
+   * two keys like the callback of `Array.prototype.sort`. The children of a value are then read
+   * before the first one is visited. Array elements keep their order. Defaults to false.
+   */
+  readonly sortKeys?: boolean | ((a: unknown, b: unknown) => number);
+  /**
+   * Called with the key of each child and the value holding it before the child is visited.
+   * Children whose key is rejected are skipped along with their own children, without calling the
+   * visitor. Array elements are always visited.
+   */
+  readonly filterKeys?: (key: unknown, node: unknown) => boolean;
+};
+
+/**
+ * Options for `rewriteToFixpoint`.
+ */
+export type RewriteOptions = Omit<VisitOptions, "dryRun"> & {
+  /**
+   * Maximum number of passes before an error is thrown, when the last one still made updates.
+   * Defaults to 100.
+   */
+  readonly maxIterations?: number;
+};
+
+/**
+ * Result of `rewriteToFixpoint`.
+ */
+export type RewriteResult = {
+  /** The final root, as returned by `visit` */
+  readonly root: unknown;
+  /** Number of traversals made, including the last one, which made no update */
+  readonly passes: number;
+};
+
+/**
+ * Formats a key path as a JSONPath-like string such as `$.users[0].name`.
+ * @internal
+ */
+const formatPath = (keys: readonly unknown[]): string =>
+  keys.reduce<string>(
+    (path, key) =>
+      typeof key === "number"
+        ? `${path}[${key}]`
+        : typeof key !== "string"
+        ? `${path}[${String(key)}]`
+        : /^[A-Za-z_$][\w$]*$/.test(key)
+        ? `${path}.${key}`
+        : `${path}[${JSON.stringify(key)}]`,
+    "$",
+  );
+
+/**
+ * Formats a key path as a JSON Pointer (RFC 6901) such as `/users/0/name`.
+ * @internal
+ */
+const formatPointer = (path: readonly unknown[]): string =>
+  path.map((key) =>
+    `/${String(key).replaceAll("~", "~0").replaceAll("/", "~1")}`
+  ).join("");
+
+/**
+ * Parent information leading to a value, linked from the last entry up to the first one, or
+ * `undefined` for the root. Links are never updated, so that they can be shared by all the values
+ * below a container.
+ * @internal
+ */
+type ParentChain =
+  | { readonly up: ParentChain; readonly entry: ParentInfo }
+  | undefined;
+
+/**
+ * Returns the parent information held by `chain`, from the root.
+ * @internal
+ */
+const chainParents = (chain: ParentChain): ParentInfo[] => {
   const parents: ParentInfo[] = [];
-  const control = (await visitor(node as any, parents)) ?? { type: "continue" };
+  for (let link = chain; link !== undefined; link = link.up) {
+    parents.push(link.entry);
+  }
+  return parents.reverse();
+};
+
+/**
+ * Records `node` as visited, or returns the flow control to apply instead of calling the visitor
+ * when it was already visited. `chain` gives the parent information of `node` when it is first
+ * visited; it is only kept when the policy needs it, so that skipping repeated values costs no more
+ * than a `WeakMap` entry per value.
+ * @internal
+ */
+const checkSeen = (
+  node: unknown,
+  parents: readonly ParentInfo[],
+  chain: () => ParentChain,
+  seen: WeakMap<object, ParentChain> | undefined,
+  cycles: VisitCyclePolicy | undefined,
+): VisitFlowControl | undefined => {
+  if (
+    seen === undefined || cycles === undefined ||
+    typeof node !== "object" || node === null
+  ) {
+    return undefined;
+  }
+  if (!seen.has(node)) {
+    seen.set(node, cycles === "skip" ? undefined : chain());
+    return undefined;
+  }
+  if (cycles === "skip") return STEP_OVER;
+  const firstParents = chainParents(seen.get(node));
+  if (cycles === "throw") {
+    throw new Error(
+      `Already visited value found at ${
+        formatPath(parents.map(({ key }) => key))
+      } (first visited at ${formatPath(firstParents.map(({ key }) => key))})`,
+    );
+  }
+  return cycles(node, parents, firstParents) ?? STEP_OVER;
+};
+
+/**
+ * Tells whether the traversal loop should go on with the next sibling after `control`.
+ * @internal
+ */
+const checkThen = (
+  control: VisitFlowControlThen,
+): "next" | "break" | "exit" => {
   switch (control.type) {
     case "continue":
-      break;
+      return "next";
     case "step_over":
-      return;
+      return "next";
     case "break":
-      return;
+      return "break";
     case "exit":
-      return;
-    case "replace":
-      throw new Error(`Root node cannot be replaced`);
-    case "delete":
-      throw new Error(`Root node cannot be deleted`);
+      return "exit";
     default:
       throw new Error(
         `Unknown control type: ${
@@ -407,114 +1040,3164 @@ export const visitAsync = async <T>(
         }`,
       );
   }
-  let exitting = false;
-  const dfs = async (node: unknown) => {
-    if (typeof node === "object" && node !== null) {
-      if (Array.isArray(node)) {
-        // Handle arrays
-        for (let index = 0; index < node.length; index++) {
-          const child: unknown = node[index];
-          parents.push({ node, key: index });
-          let control = (await visitor(child as any, parents)) ?? {
-            type: "continue",
-          };
-          if (control.type === "replace") {
-            node[index] = control.value;
-            control = control.then;
-          } else if (control.type === "delete") {
-            node.splice(index, 1);
-            index--;
-            if (
-              control.then.type === "continue" ||
-              control.then.type === "step_over"
-            ) {
-              continue;
-            } else if (control.then.type === "break") {
-              return;
-            } else if (control.then.type === "exit") {
-              exitting = true;
-              return;
-            } else {
-              throw new Error(
-                `Unknown control type: ${
-                  (control.then satisfies never as { type: 0 }).type
-                }`,
-              );
-            }
-          }
-          if (control.type === "continue") {
-            await dfs(child);
-            if (exitting) return;
-          } else if (control.type === "step_over") {
-            continue;
-          } else if (control.type === "break") {
-            return;
-          } else if (control.type === "exit") {
-            exitting = true;
-            return;
-          } else {
-            throw new Error(
-              `Unknown control type: ${
-                (control satisfies never as { type: 0 }).type
-              }`,
-            );
-          }
-          parents.pop();
-        }
-      } else {
-        // Handle objects
-        for (const key in node) {
-          if (Object.prototype.hasOwnProperty.call(node, key)) {
-            const child: unknown = (node as any)[key];
-            parents.push({ node, key });
-            let control = (await visitor(child as any, parents)) ?? {
-              type: "continue",
-            };
-            if (control.type === "replace") {
-              (node as any)[key] = control.value;
-              control = control.then;
-            } else if (control.type === "delete") {
-              delete (node as any)[key];
-              if (
-                control.then.type === "continue" ||
-                control.then.type === "step_over"
-              ) {
-                continue;
-              } else if (control.then.type === "break") {
-                return;
-              } else if (control.then.type === "exit") {
-                exitting = true;
-                return;
-              } else {
-                throw new Error(
-                  `Unknown control type: ${
-                    (control.then satisfies never as { type: 0 }).type
-                  }`,
-                );
-              }
-            }
-            if (control.type === "continue") {
-              await dfs(child);
-              if (exitting) return;
-            } else if (control.type === "step_over") {
-              continue;
-            } else if (control.type === "break") {
-              return;
-            } else if (control.type === "exit") {
-              exitting = true;
-              return;
-            } else {
-              throw new Error(
-                `Unknown control type: ${
-                  (control satisfies never as { type: 0 }).type
-                }`,
-              );
-            }
-            parents.pop();
-          }
-        }
+};
+
+/**
+ * Returns the own property keys of `node` following `enumeration`, or its own enumerable
+ * string keys by default.
+ * @internal
+ */
+const ownKeys = (
+  node: object,
+  enumeration: VisitEnumeration | undefined,
+): PropertyKey[] => {
+  if (!enumeration?.symbols && !enumeration?.nonEnumerable) {
+    return Object.keys(node);
+  }
+  return Reflect.ownKeys(node).filter((key) =>
+    (enumeration.symbols || typeof key === "string") &&
+    (enumeration.nonEnumerable ||
+      Object.prototype.propertyIsEnumerable.call(node, key))
+  );
+};
+
+/**
+ * Yields the own properties of `node`, the enumerable string-keyed ones unless `enumeration` says
+ * otherwise. Keys are read upfront and those deleted in the meantime are skipped.
+ * @internal
+ */
+function* objectEntries(
+  node: any,
+  enumeration?: VisitEnumeration,
+): Generator<readonly [PropertyKey, unknown]> {
+  for (const key of ownKeys(node, enumeration)) {
+    if (Object.prototype.hasOwnProperty.call(node, key)) {
+      yield [key, node[key]];
+    }
+  }
+}
+
+/**
+ * Yields the entries of `map`. Keys are read upfront and those deleted in the meantime are skipped.
+ * @internal
+ */
+function* mapEntries(
+  map: Map<unknown, unknown>,
+): Generator<readonly [unknown, unknown]> {
+  for (const key of [...map.keys()]) {
+    if (map.has(key)) yield [key, map.get(key)];
+  }
+}
+
+/**
+ * Yields the members of `set` keyed by themselves.
+ * Members are read upfront and those deleted in the meantime are skipped.
+ * @internal
+ */
+function* setEntries(
+  set: Set<unknown>,
+): Generator<readonly [unknown, unknown]> {
+  for (const member of [...set]) {
+    if (set.has(member)) yield [member, member];
+  }
+}
+
+/**
+ * Yields the elements of a typed array keyed by index.
+ * @internal
+ */
+function* typedArrayEntries(
+  array: ArrayLike<unknown>,
+): Generator<readonly [number, unknown]> {
+  for (let index = 0; index < array.length; index++) {
+    yield [index, array[index]];
+  }
+}
+
+/**
+ * Stores `value` as the property or array element `key` of `node`.
+ * @internal
+ */
+const setProperty = (node: any, key: unknown, value: unknown): void => {
+  node[key as PropertyKey] = value;
+};
+
+/**
+ * Removes the property or array element `key` of `node`. Array elements are spliced out.
+ * @internal
+ */
+const deleteProperty = (node: any, key: unknown): void => {
+  if (Array.isArray(node)) {
+    node.splice(key as number, 1);
+  } else {
+    delete node[key as PropertyKey];
+  }
+};
+
+/**
+ * Inserts `values` into the array `node` before `index`.
+ * @internal
+ */
+const insertElements = (
+  node: any,
+  index: number,
+  values: readonly unknown[],
+): void => {
+  (node as unknown[]).splice(index, 0, ...values);
+};
+
+/**
+ * Moves the property `key` of `node` to `newKey`, keeping its descriptor. The following properties
+ * are defined again after it, so that it keeps its position, except among integer-like keys, which
+ * always come first.
+ * @internal
+ */
+const renameProperty = (node: any, key: unknown, newKey: unknown): void => {
+  const keys = Reflect.ownKeys(node);
+  const index = keys.indexOf(key as string | symbol);
+  const following = (index < 0 ? [] : keys.slice(index + 1))
+    .map((name) =>
+      [name, Object.getOwnPropertyDescriptor(node, name)!] as const
+    );
+  const descriptor = Object.getOwnPropertyDescriptor(node, key as PropertyKey)!;
+  delete node[key as PropertyKey];
+  for (const [name] of following) delete node[name];
+  Object.defineProperty(node, newKey as PropertyKey, descriptor);
+  for (const [name, followingDescriptor] of following) {
+    Object.defineProperty(node, name, followingDescriptor);
+  }
+};
+
+/**
+ * Moves the entry `key` of `map` to `newKey`, keeping its position.
+ * @internal
+ */
+const renameMapEntry = (
+  map: Map<unknown, unknown>,
+  key: unknown,
+  newKey: unknown,
+): void => {
+  const entries = [...map];
+  map.clear();
+  for (const [entryKey, value] of entries) {
+    map.set(Object.is(entryKey, key) ? newKey : entryKey, value);
+  }
+};
+
+/**
+ * Returns a shallow copy of an array, or of an object keeping its prototype and the descriptors
+ * of its own properties. The properties of the copy can be updated even when those of `node`
+ * cannot, as when it is frozen.
+ * @internal
+ */
+const cloneShallow = (node: any): unknown => {
+  if (Array.isArray(node)) return node.slice();
+  const descriptors = Object.getOwnPropertyDescriptors(node);
+  for (const key of Reflect.ownKeys(descriptors)) {
+    const descriptor = descriptors[key as string];
+    descriptor.configurable = true;
+    if ("value" in descriptor) descriptor.writable = true;
+  }
+  return Object.create(Object.getPrototypeOf(node), descriptors);
+};
+
+/**
+ * Adapter used when none is given: visits array elements, own enumerable object properties,
+ * `Map` values, `Set` members and typed array elements.
+ *
+ * `Set` members are replaced in place, keeping the iteration order, and typed array elements
+ * cannot be deleted.
+ */
+export const defaultAdapter: VisitAdapter = Object.freeze({
+  getChildren: (
+    node: unknown,
+    enumeration?: VisitEnumeration,
+  ): VisitChildren | undefined => {
+    if (typeof node !== "object" || node === null) return undefined;
+    if (Array.isArray(node)) return node;
+    if (node instanceof Map) return mapEntries(node);
+    if (node instanceof Set) return setEntries(node);
+    if (ArrayBuffer.isView(node)) {
+      return node instanceof DataView
+        ? undefined
+        : typedArrayEntries(node as unknown as ArrayLike<unknown>);
+    }
+    return objectEntries(node, enumeration);
+  },
+  setChild: (node: any, key: unknown, value: unknown): void => {
+    if (node instanceof Map) {
+      node.set(key, value);
+    } else if (node instanceof Set) {
+      const members = [...node];
+      node.clear();
+      for (const member of members) {
+        node.add(Object.is(member, key) ? value : member);
       }
+    } else {
+      setProperty(node, key, value);
     }
-  };
-  await dfs(node);
+  },
+  deleteChild: (node: any, key: unknown): void => {
+    if (node instanceof Map || node instanceof Set) {
+      node.delete(key);
+    } else if (ArrayBuffer.isView(node)) {
+      throw new Error(`Typed array elements cannot be deleted`);
+    } else {
+      deleteProperty(node, key);
+    }
+  },
+  clone: (node: any): unknown => {
+    if (node instanceof Map) return new Map(node);
+    if (node instanceof Set) return new Set(node);
+    if (ArrayBuffer.isView(node)) return (node as Uint8Array).slice();
+    return cloneShallow(node);
+  },
+  insertChildren: insertElements,
+  renameChild: (node: any, key: unknown, newKey: unknown): void => {
+    if (node instanceof Map) {
+      renameMapEntry(node, key, newKey);
+    } else if (node instanceof Set) {
+      throw new Error(`Set members cannot be renamed`);
+    } else if (ArrayBuffer.isView(node)) {
+      throw new Error(`Typed array elements cannot be renamed`);
+    } else {
+      renameProperty(node, key, newKey);
+    }
+  },
+});
+
+/**
+ * Adapter for plain JSON-like data: visits array elements and the own enumerable properties of
+ * any other object, without special handling of `Map`, `Set` or typed arrays.
+ */
+export const jsonAdapter: VisitAdapter = Object.freeze({
+  getChildren: (
+    node: unknown,
+    enumeration?: VisitEnumeration,
+  ): VisitChildren | undefined => {
+    if (typeof node !== "object" || node === null) return undefined;
+    return Array.isArray(node) ? node : objectEntries(node, enumeration);
+  },
+  setChild: setProperty,
+  deleteChild: deleteProperty,
+  clone: cloneShallow,
+  insertChildren: insertElements,
+  renameChild: renameProperty,
+});
+
+/**
+ * Yields the `children` of a unist parent node.
+ * @internal
+ */
+function* unistEntries(node: any): Generator<readonly [string, unknown]> {
+  yield ["children", node.children];
+}
+
+/**
+ * Adapter for unist syntax trees (mdast, hast, ...): only descends into `children`.
+ *
+ * The `children` array is visited as a value of its own, so parent information follows the actual
+ * property path (`children`, then the index).
+ */
+export const unistAdapter: VisitAdapter = Object.freeze({
+  getChildren: (node: any): VisitChildren | undefined => {
+    if (Array.isArray(node)) return node;
+    return typeof node === "object" && node !== null &&
+        Array.isArray(node.children)
+      ? unistEntries(node)
+      : undefined;
+  },
+  setChild: setProperty,
+  deleteChild: deleteProperty,
+  clone: cloneShallow,
+  insertChildren: insertElements,
+  renameChild: renameProperty,
+});
+
+/**
+ * Properties of ESTree nodes that never hold child nodes.
+ * @internal
+ */
+const estreeIgnoredKeys: ReadonlySet<string> = new Set([
+  "type",
+  "loc",
+  "range",
+  "start",
+  "end",
+  "parent",
+  "comments",
+  "tokens",
+  "leadingComments",
+  "trailingComments",
+  "innerComments",
+]);
+
+/**
+ * Tells whether `value` looks like an ESTree node.
+ * @internal
+ */
+const isEstreeNode = (value: unknown): boolean =>
+  typeof value === "object" && value !== null &&
+  typeof (value as { type?: unknown }).type === "string";
+
+/**
+ * Yields the properties of an ESTree node that hold child nodes or arrays of them.
+ * @internal
+ */
+function* estreeEntries(
+  node: any,
+  enumeration: VisitEnumeration | undefined,
+): Generator<readonly [PropertyKey, unknown]> {
+  for (const [key, value] of objectEntries(node, enumeration)) {
+    if (
+      !estreeIgnoredKeys.has(key as string) &&
+      (Array.isArray(value) || isEstreeNode(value))
+    ) {
+      yield [key, value];
+    }
+  }
+}
+
+/**
+ * Adapter for ESTree syntax trees: only descends into properties holding nodes or arrays of
+ * nodes, skipping `loc`, `range`, comments and other metadata.
+ *
+ * Arrays such as `body` or `arguments` are visited as values of their own, so parent information
+ * follows the actual property path (`body`, then the index).
+ */
+export const estreeAdapter: VisitAdapter = Object.freeze({
+  getChildren: (
+    node: unknown,
+    enumeration?: VisitEnumeration,
+  ): VisitChildren | undefined => {
+    if (Array.isArray(node)) return node;
+    return isEstreeNode(node) ? estreeEntries(node, enumeration) : undefined;
+  },
+  setChild: setProperty,
+  deleteChild: deleteProperty,
+  clone: cloneShallow,
+  insertChildren: insertElements,
+  renameChild: renameProperty,
+});
+
+/**
+ * A container whose children are being visited by the traversal engine.
+ * @internal
+ */
+type Frame = {
+  /** The container itself */
+  node: unknown;
+  /** The children when visited as a live list, `undefined` otherwise */
+  list: readonly unknown[] | undefined;
+  /** The remaining children when visited as entries, `undefined` otherwise */
+  entries: Iterator<readonly [unknown, unknown]> | undefined;
+  /** Adapter used to update the children */
+  readonly adapter: VisitAdapter;
+  /** Frame of the container holding this one, `undefined` for the frame holding the root */
+  readonly parent: Frame | undefined;
+  /** Key of the container in its parent */
+  slot: unknown;
+  /** Parent information of the container, shared by the parent information of its children */
+  readonly chain: ParentChain;
+  /**
+   * Set when the container is stored in its parent, unset when it is an original value whose
+   * replacement is stored there instead
+   */
+  readonly attached: boolean;
+  /** Index of this container's entry in the parent information */
+  readonly depth: number;
+  /** Set when the children can be updated in place */
+  writable: boolean;
+  /** Index of the current child in `list` */
+  index: number;
+  /** Key of the current child */
+  key: unknown;
+  /** Current value of the current child */
+  child: unknown;
+  /** Set when the current child should be visited again */
+  rewound: boolean;
+  /** Set when the remaining children should be skipped */
+  done: boolean;
+  /** Number of times the current child has been revisited */
+  revisits: number;
+  /** Set when the visitor should not be called when leaving the container */
+  silent: boolean;
+  /**
+   * Original values of the replacements descended into, by this container and its ancestors.
+   * Shared with the parent frame unless this container is such a replacement.
+   */
+  replacing: readonly unknown[];
+  /** Results of entering the children concurrently, in order, `undefined` when not prefetched */
+  prefetched: (Prefetched | undefined)[] | undefined;
+  /** Number of children advanced to so far, excluding revisits */
+  advanced: number;
+};
+
+/**
+ * Result of entering a child ahead of its turn.
+ * @internal
+ */
+type Prefetched = {
+  readonly child: unknown;
+  readonly control: VisitFlowControl | void;
+};
+
+/**
+ * A value to enter as part of a batch, with its own copy of the parent information.
+ * @internal
+ */
+type BatchItem = {
+  readonly node: unknown;
+  readonly parents: readonly ParentInfo[];
+};
+
+/**
+ * Request yielded by the traversal engine to have the visitor called on a value, or to have
+ * `enter` called concurrently on a batch of siblings.
+ * @internal
+ */
+type VisitRequest =
+  | { readonly phase: "enter" | "leave"; readonly node: unknown }
+  | { readonly phase: "batch"; readonly items: readonly BatchItem[] };
+
+/**
+ * Controls returned for a batch, in order. Items whose call was not started are `undefined`.
+ * @internal
+ */
+type BatchResult =
+  readonly ({ readonly control: VisitFlowControl | void } | undefined)[];
+
+/**
+ * Generator driving a traversal: it yields a request for each visitor call, is resumed with
+ * the flow control returned by the visitor, and returns the final root.
+ * @internal
+ */
+type Engine = Generator<
+  VisitRequest,
+  unknown,
+  VisitFlowControl | void | BatchResult
+>;
+
+/**
+ * Adapter of the single-element array holding the root during a traversal.
+ * @internal
+ */
+const rootAdapter: VisitAdapter = Object.freeze({
+  getChildren: (node: unknown): VisitChildren => node as unknown[],
+  setChild: setProperty,
+  deleteChild: deleteProperty,
+});
+
+/**
+ * Rules applied to the children of the values visited, from the traversal options.
+ * @internal
+ */
+type KeyRules = {
+  readonly enumeration: VisitEnumeration | undefined;
+  readonly filter: ((key: unknown, node: unknown) => boolean) | undefined;
+  readonly compare: ((a: unknown, b: unknown) => number) | undefined;
+};
+
+/**
+ * Compares keys formatted by `String`, or numerically when both are numbers.
+ * @internal
+ */
+const compareKeys = (a: unknown, b: unknown): number => {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  const first = String(a);
+  const second = String(b);
+  return first < second ? -1 : first > second ? 1 : 0;
+};
+
+/**
+ * Reads the rules applied to the children of the values visited from `options`.
+ * @internal
+ */
+const keyRules = (options: VisitOptions | undefined): KeyRules => ({
+  enumeration: options?.includeSymbols || options?.includeNonEnumerable
+    ? {
+      symbols: options.includeSymbols ?? false,
+      nonEnumerable: options.includeNonEnumerable ?? false,
+    }
+    : undefined,
+  filter: options?.filterKeys,
+  compare: options?.sortKeys === true
+    ? compareKeys
+    : options?.sortKeys || undefined,
+});
+
+/**
+ * Yields the entries whose key is accepted by `filter`.
+ * @internal
+ */
+function* filterEntries(
+  entries: Iterable<readonly [unknown, unknown]>,
+  node: unknown,
+  filter: (key: unknown, node: unknown) => boolean,
+): Generator<readonly [unknown, unknown]> {
+  for (const entry of entries) {
+    if (filter(entry[0], node)) yield entry;
+  }
+}
+
+/**
+ * Returns the children of `node` to visit following `rules`. Arrays are returned as they are.
+ * @internal
+ */
+const visitedChildren = (
+  node: unknown,
+  adapter: VisitAdapter,
+  rules: KeyRules,
+): VisitChildren | undefined => {
+  const children = adapter.getChildren(node, rules.enumeration);
+  if (children === undefined || Array.isArray(children)) return children;
+  const { filter, compare } = rules;
+  let entries = children as Iterable<readonly [unknown, unknown]>;
+  if (filter !== undefined) entries = filterEntries(entries, node, filter);
+  if (compare !== undefined) {
+    entries = [...entries].sort(([a], [b]) => compare(a, b)).values();
+  }
+  return entries;
+};
+
+/**
+ * Creates the frame for visiting the children of `node`, or returns `undefined` when it has none.
+ * @internal
+ */
+const createFrame = (
+  node: unknown,
+  adapter: VisitAdapter,
+  parent: Frame | undefined,
+  writable: boolean,
+  rules: KeyRules,
+): Frame | undefined => {
+  const children = visitedChildren(node, adapter, rules);
+  if (children === undefined) return undefined;
+  const list = Array.isArray(children) ? children : undefined;
+  return {
+    node,
+    list,
+    entries: list === undefined
+      ? (children as Iterable<readonly [unknown, unknown]>)[Symbol.iterator]()
+      : undefined,
+    adapter,
+    parent,
+    slot: parent?.key,
+    chain: parent?.parent === undefined
+      ? undefined
+      : { up: parent.chain, entry: { node: parent.node, key: parent.key } },
+    attached: parent !== undefined && Object.is(parent.child, node),
+    depth: parent === undefined ? -1 : parent.depth + 1,
+    writable,
+    index: -1,
+    key: undefined,
+    child: undefined,
+    rewound: false,
+    done: false,
+    revisits: 0,
+    silent: false,
+    replacing: parent?.replacing ?? [],
+    prefetched: undefined,
+    advanced: 0,
+  };
+};
+
+/**
+ * Moves `frame` to its next child. Returns false when there is none left.
+ * List length is read on every step, so elements deleted in the meantime are accounted for.
+ * @internal
+ */
+const advance = (frame: Frame): boolean => {
+  if (frame.done) return false;
+  if (frame.rewound) {
+    frame.rewound = false;
+    return true;
+  }
+  if (frame.list !== undefined) {
+    if (++frame.index >= frame.list.length) return false;
+    frame.key = frame.index;
+    frame.child = frame.list[frame.index];
+  } else {
+    const next = frame.entries!.next();
+    if (next.done) return false;
+    [frame.key, frame.child] = next.value;
+  }
+  frame.advanced++;
+  return true;
+};
+
+/**
+ * Takes the prefetched result of entering the current child of `frame`, unless it was not
+ * prefetched, was already taken, or the child changed since.
+ * @internal
+ */
+const takePrefetched = (frame: Frame): Prefetched | undefined => {
+  if (frame.prefetched === undefined) return undefined;
+  const prefetched = frame.prefetched[frame.advanced - 1];
+  frame.prefetched[frame.advanced - 1] = undefined;
+  return prefetched !== undefined && Object.is(prefetched.child, frame.child)
+    ? prefetched
+    : undefined;
+};
+
+/**
+ * Tells whether the siblings following a value should be skipped after `control`.
+ * @internal
+ */
+const stopsSiblings = (control: VisitFlowControl): boolean => {
+  const then = "then" in control ? control.then : control;
+  return then.type === "break" || then.type === "exit";
+};
+
+/**
+ * Replaces the current child of `frame` with `value`.
+ * `Set` members are their own keys, so the key follows the value.
+ * @internal
+ */
+const replaceChild = (frame: Frame, value: unknown): void => {
+  frame.adapter.setChild(frame.node, frame.key, value);
+  if (frame.node instanceof Set) frame.key = value;
+  frame.child = value;
+};
+
+/**
+ * Reports an update of the current child of `frame`, once applied: a replacement of `oldValue`
+ * with `newValue`, its deletion, the insertion of `newValue` at `path`, or its move to `path`.
+ * Updates made inside an original value that was replaced are not reported, as they do not
+ * reach the data structure. Without a frame, the update is always reported.
+ * @internal
+ */
+type PatchRecorder = (
+  frame: Frame | undefined,
+  type: "replace" | "delete" | "insert" | "move",
+  oldValue: unknown,
+  newValue?: unknown,
+  path?: readonly unknown[],
+) => void;
+
+/**
+ * Tells whether the children of `frame` belong to the data structure, rather than to an original
+ * value whose replacement is stored in its place.
+ * @internal
+ */
+const isAttached = (frame: Frame): boolean => {
+  for (
+    let current = frame;
+    current.parent !== undefined;
+    current = current.parent
+  ) {
+    if (!current.attached) return false;
+  }
+  return true;
+};
+
+/**
+ * A container found by key path, with the adapter of its children.
+ * @internal
+ */
+type Container = { readonly node: unknown; readonly adapter: VisitAdapter };
+
+/**
+ * Finds the child of `node` at `key`. Returns `undefined` when there is no such child.
+ * @internal
+ */
+const getChild = (
+  node: unknown,
+  key: unknown,
+  adapter: VisitAdapter,
+): { readonly value: unknown } | undefined => {
+  const children = adapter.getChildren(node);
+  if (children === undefined) return undefined;
+  if (Array.isArray(children)) {
+    return Number.isInteger(key) && (key as number) >= 0 &&
+        (key as number) < children.length
+      ? { value: children[key as number] }
+      : undefined;
+  }
+  for (
+    const [childKey, value] of children as Iterable<
+      readonly [unknown, unknown]
+    >
+  ) {
+    if (Object.is(childKey, key)) return { value };
+  }
+  return undefined;
+};
+
+/**
+ * Tells whether the key path `keys` starts with `prefix`.
+ * @internal
+ */
+const startsWith = (
+  keys: readonly unknown[],
+  prefix: readonly unknown[],
+): boolean =>
+  prefix.length <= keys.length &&
+  prefix.every((key, index) => Object.is(key, keys[index]));
+
+/**
+ * Inserts values around the current child of `frame`, or in its place, once `prepare` has made
+ * it writable, and reports the insertions to `record`. The index of the current child is updated
+ * so that values inserted after it are visited next, and those inserted before it are not.
+ * @internal
+ */
+const insertValues = (
+  control:
+    | VisitFlowControlInsertBefore
+    | VisitFlowControlInsertAfter
+    | VisitFlowControlReplaceWithMany,
+  frame: Frame,
+  parents: ParentInfo[],
+  prepare: (frame: Frame) => void,
+  record: PatchRecorder,
+): void => {
+  if (frame.list === undefined || frame.parent === undefined) {
+    throw new Error(
+      `Values can only be inserted next to array elements, not at ${
+        formatPath(parents.map(({ key }) => key))
+      }`,
+    );
+  }
+  const insert = frame.adapter.insertChildren;
+  if (insert === undefined) {
+    throw new Error(`Adapter does not support inserting values`);
+  }
+  const { values } = control;
+  const oldValue = frame.child;
+  prepare(frame);
+  let index = frame.index;
+  if (control.type === "replace_with_many") {
+    frame.adapter.deleteChild(frame.node, index);
+    record(frame, "delete", oldValue);
+  } else if (control.type === "insert_after") {
+    index++;
+  }
+  insert(frame.node, index, values);
+  const siblings = parents.slice(0, -1).map(({ key }) => key);
+  values.forEach((value, offset) =>
+    record(frame, "insert", undefined, value, [...siblings, index + offset])
+  );
+  if (control.type === "insert_before") {
+    frame.index += values.length;
+    frame.key = frame.index;
+    parents[parents.length - 1] = { node: frame.node, key: frame.key };
+    return;
+  }
+  if (control.type === "replace_with_many") frame.index--;
+  // The inserted values come before the following children, which may have been prefetched
+  frame.prefetched?.splice(frame.advanced, 0, ...values.map(() => undefined));
+};
+
+/**
+ * Moves the current child of `frame` to another key of its container, once `prepare` has made it
+ * writable, and reports the move to `record`. The frame and `parents` follow the new key.
+ * @internal
+ */
+const renameValue = (
+  control: VisitFlowControlRename,
+  frame: Frame,
+  parents: ParentInfo[],
+  prepare: (frame: Frame) => void,
+  record: PatchRecorder,
+): void => {
+  const keys = parents.map(({ key }) => key);
+  if (frame.list !== undefined || frame.parent === undefined) {
+    throw new Error(
+      `Only object properties and Map entries can be renamed, not ${
+        formatPath(keys)
+      }`,
+    );
+  }
+  const rename = frame.adapter.renameChild;
+  if (rename === undefined) {
+    throw new Error(`Adapter does not support renaming values`);
+  }
+  const { newKey } = control;
+  if (Object.is(newKey, frame.key)) return;
+  const path = [...keys.slice(0, -1), newKey];
+  if (getChild(frame.node, newKey, frame.adapter) !== undefined) {
+    throw new Error(`Value already exists at ${formatPath(path)}`);
+  }
+  prepare(frame);
+  rename(frame.node, frame.key, newKey);
+  record(frame, "move", frame.child, frame.child, path);
+  frame.key = newKey;
+  parents[parents.length - 1] = { node: frame.node, key: newKey };
+};
+
+/**
+ * Moves the current child of `frame` into the container that `locate` finds, and reports the move
+ * to `record`. The destination path is given before the child is removed, and the reported one
+ * accounts for the array elements shifted by its removal.
+ * @internal
+ */
+const moveValue = (
+  control: VisitFlowControlMove,
+  frame: Frame,
+  parents: readonly ParentInfo[],
+  record: PatchRecorder,
+  locate: (keys: readonly unknown[]) => Container | undefined,
+): void => {
+  const from = parents.map(({ key }) => key);
+  if (frame.parent === undefined) throw new Error(`The root cannot be moved`);
+  const { path } = control;
+  if (startsWith(path, from)) {
+    throw new Error(`Value at ${formatPath(from)} cannot be moved into itself`);
+  }
+  const target = path.length === 0 ? undefined : locate(path.slice(0, -1));
+  const children = target?.adapter.getChildren(target.node);
+  if (target === undefined || children === undefined) {
+    throw new Error(
+      `No container found to move a value to ${formatPath(path)}`,
+    );
+  }
+  // `Set` members are their own keys, and typed arrays have a fixed length
+  if (target.node instanceof Set || ArrayBuffer.isView(target.node)) {
+    throw new Error(
+      `Values cannot be moved into a Set or a typed array, at ${
+        formatPath(path)
+      }`,
+    );
+  }
+  let key = path[path.length - 1];
+  if (Array.isArray(children)) {
+    if (key !== children.length) {
+      throw new Error(
+        `Values can only be moved to the end of arrays, not to ${
+          formatPath(path)
+        }`,
+      );
+    }
+  } else if (getChild(target.node, key, target.adapter) !== undefined) {
+    throw new Error(`Value already exists at ${formatPath(path)}`);
+  }
+  const destination = [...path];
+  const depth = from.length - 1;
+  if (
+    frame.list !== undefined && startsWith(path, from.slice(0, -1)) &&
+    typeof path[depth] === "number" && path[depth] > frame.index
+  ) {
+    // The destination follows the current child in the same array
+    destination[depth] = path[depth] - 1;
+    if (depth === path.length - 1) key = destination[depth];
+  }
+  const value = frame.child;
+  frame.adapter.deleteChild(frame.node, frame.key);
+  if (frame.list !== undefined) frame.index--;
+  target.adapter.setChild(target.node, key, value);
+  if (isAttached(frame)) {
+    record(frame, "move", value, value, destination);
+  } else {
+    // The value comes out of an original value that is no longer part of the data structure
+    record(undefined, "insert", undefined, value, destination);
+  }
+};
+
+/**
+ * Applies a REPLACE, DELETE, insertion, RENAME or MOVE control to the current child of `frame`,
+ * once `prepare` has made it writable, and reports it to `record`. Returns the flow control to
+ * follow afterwards and whether the child was removed.
+ * @internal
+ */
+const applyUpdate = (
+  control: Exclude<VisitFlowControl, VisitFlowControlReplaceAndRevisit>,
+  frame: Frame,
+  parents: ParentInfo[],
+  prepare: (frame: Frame) => void,
+  record: PatchRecorder,
+  locate: (keys: readonly unknown[]) => Container | undefined,
+): { readonly then: VisitFlowControlThen; readonly deleted: boolean } => {
+  if (control.type === "replace") {
+    const oldValue = frame.child;
+    prepare(frame);
+    replaceChild(frame, control.value);
+    if (!Object.is(oldValue, control.value)) {
+      record(frame, "replace", oldValue, control.value);
+    }
+    return { then: control.then, deleted: false };
+  }
+  if (control.type === "delete") {
+    const oldValue = frame.child;
+    prepare(frame);
+    frame.adapter.deleteChild(frame.node, frame.key);
+    if (frame.list !== undefined) frame.index--;
+    record(frame, "delete", oldValue);
+    return { then: control.then, deleted: true };
+  }
+  if (
+    control.type === "insert_before" || control.type === "insert_after" ||
+    control.type === "replace_with_many"
+  ) {
+    insertValues(control, frame, parents, prepare, record);
+    return {
+      then: control.then,
+      deleted: control.type === "replace_with_many",
+    };
+  }
+  if (control.type === "rename") {
+    renameValue(control, frame, parents, prepare, record);
+    return { then: control.then, deleted: false };
+  }
+  if (control.type === "move") {
+    moveValue(control, frame, parents, record, locate);
+    return { then: control.then, deleted: true };
+  }
+  return { then: control, deleted: false };
+};
+
+/**
+ * Applies the flow control that ends the visit of the current child of `frame`.
+ * Returns false when the whole traversal should stop.
+ * @internal
+ */
+const settle = (frame: Frame, then: VisitFlowControlThen): boolean => {
+  frame.revisits = 0;
+  switch (checkThen(then)) {
+    case "next":
+      return true;
+    case "break":
+      frame.done = true;
+      return true;
+    case "exit":
+      return false;
+  }
+};
+
+/**
+ * Replaces the current child of `frame`, once `prepare` has made it writable, reports it to
+ * `record` and rewinds the frame so that the new value is visited next.
+ * Returns false without doing anything when the value is unchanged.
+ * @internal
+ */
+const revisit = (
+  frame: Frame,
+  value: unknown,
+  parents: readonly ParentInfo[],
+  maxRevisits: number,
+  prepare: (frame: Frame) => void,
+  record: PatchRecorder,
+): boolean => {
+  if (Object.is(frame.child, value)) return false;
+  if (++frame.revisits > maxRevisits) {
+    throw new Error(
+      `Value at ${
+        formatPath(parents.map(({ key }) => key))
+      } was revisited more than ${maxRevisits} times`,
+    );
+  }
+  const oldValue = frame.child;
+  prepare(frame);
+  replaceChild(frame, value);
+  record(frame, "replace", oldValue, value);
+  frame.rewound = true;
+  return true;
+};
+
+/**
+ * Traversal engine shared by `visit`, `transform` and their async counterparts.
+ *
+ * Uses an explicit stack of frames instead of recursion, so the depth of the data is only limited
+ * by memory. In breadth-first order, the frames are queued instead. The root is held by a
+ * single-element array, so that it can be updated like any other child. `parents` is kept up to
+ * date for each value the visitor is called on.
+ *
+ * In copy-on-write mode, a container is shallowly copied before its first update, and the copy is
+ * stored into its own parent in the same way, up to the root. Unchanged subtrees are shared.
+ * @internal
+ */
+function* traverse(
+  root: unknown,
+  parents: ParentInfo[],
+  hasLeave: boolean,
+  options: VisitOptions | undefined,
+  copyOnWrite: boolean,
+  concurrent: boolean,
+): Engine {
+  const cycles = options?.cycles;
+  const seen = cycles === undefined
+    ? undefined
+    : new WeakMap<object, ParentChain>();
+  const descendIntoReplacement = options?.descendIntoReplacement ?? false;
+  const maxRevisits = options?.maxRevisits ?? 100;
+  const adapter = options?.adapter ?? defaultAdapter;
+  const rules = keyRules(options);
+  const clone = adapter.clone;
+  // A dry run updates copies, which are then dropped
+  const dryRun = options?.dryRun ?? false;
+  const copying = copyOnWrite || dryRun;
+  if (copying && clone === undefined) {
+    throw new Error(`Adapter does not support copy-on-write traversal`);
+  }
+  const breadthFirst = options?.order === "bfs";
+  if (breadthFirst && hasLeave) {
+    throw new Error(`Leave visitors are not supported in breadth-first order`);
+  }
+  // Tells whether `value` is the original of a replacement being descended into
+  const isReplacing = (frame: Frame, value: unknown): boolean =>
+    frame.replacing.length > 0 &&
+    frame.replacing.some((original) => Object.is(original, value));
+  const prepare = (frame: Frame): void => {
+    if (frame.parent === undefined) return;
+    // Containers to copy, up to the first writable one or the first one that is not stored in
+    // its parent
+    const chain: Frame[] = [];
+    for (let current = frame; !current.writable; current = current.parent!) {
+      chain.push(current);
+      if (!current.attached) break;
+    }
+    for (let index = chain.length - 1; index >= 0; index--) {
+      const current = chain[index];
+      const copy = clone!(current.node);
+      if (current.attached) {
+        const parent = current.parent!;
+        parent.adapter.setChild(parent.node, current.slot, copy);
+        // `Set` members are their own keys
+        const isSet = parent.node instanceof Set;
+        if (Object.is(parent.key, current.slot)) {
+          if (isSet) parent.key = copy;
+          parent.child = copy;
+        }
+        if (isSet) current.slot = copy;
+      }
+      current.node = copy;
+      current.writable = true;
+      if (current.list !== undefined) {
+        current.list = adapter.getChildren(copy) as readonly unknown[];
+      }
+      parents[current.depth] = { node: copy, key: parents[current.depth].key };
+    }
+  };
+  const onPatch = options?.onPatch;
+  const onChange = options?.onChange;
+  // The current child is the last entry of `parents`, or the root when there is none
+  const record: PatchRecorder = (frame, type, oldValue, newValue, to) => {
+    if (onPatch === undefined && onChange === undefined) return;
+    if (frame !== undefined && !isAttached(frame)) return;
+    const current = parents.map((parent) => parent.key);
+    const path = to ?? current;
+    const jsonPointer = formatPointer(path);
+    onPatch?.(
+      type === "delete"
+        ? { op: "remove", path: jsonPointer }
+        : type === "move"
+        ? { op: "move", from: formatPointer(current), path: jsonPointer }
+        : {
+          op: type === "insert" ? "add" : "replace",
+          path: jsonPointer,
+          value: newValue,
+        },
+    );
+    onChange?.(
+      type === "move"
+        ? { type, path, jsonPointer, oldValue, newValue, from: current }
+        : { type, path, jsonPointer, oldValue, newValue },
+    );
+  };
+  // Enters all the children of `frame` as a batch, skipping those that would not be handed to
+  // the visitor when reached
+  function* prefetch(frame: Frame): Generator<
+    VisitRequest,
+    void,
+    VisitFlowControl | void | BatchResult
+  > {
+    let children: (readonly [unknown, unknown])[];
+    if (frame.list !== undefined) {
+      children = frame.list.map((child, index) => [index, child]);
+    } else {
+      children = [...{ [Symbol.iterator]: () => frame.entries! }];
+      frame.entries = children[Symbol.iterator]();
+    }
+    const items: BatchItem[] = [];
+    const positions: number[] = [];
+    // Values found several times among the children are only entered at their first position
+    const batched = new Set<object>();
+    children.forEach(([key, child], position) => {
+      if (isReplacing(frame, child)) return;
+      if (seen !== undefined && typeof child === "object" && child !== null) {
+        if (seen.has(child) || batched.has(child)) return;
+        batched.add(child);
+      }
+      items.push({
+        node: child,
+        parents: [...parents, { node: frame.node, key }],
+      });
+      positions.push(position);
+    });
+    const results = (yield { phase: "batch", items }) as BatchResult;
+    frame.prefetched = [];
+    positions.forEach((position, index) => {
+      const result = results[index];
+      if (result !== undefined) {
+        frame.prefetched![position] = { child: items[index].node, ...result };
+      }
+    });
+  }
+  // Sets `parents` to the parent information of the children of `frame`, without their own entry
+  const resetParents = (frame: Frame): void => {
+    parents.length = Math.max(frame.depth, 0);
+    for (let current = frame; current.depth > 0; current = current.parent!) {
+      parents[current.depth - 1] = {
+        node: current.parent!.node,
+        key: current.slot,
+      };
+    }
+  };
+  const holder: unknown[] = [root];
+  const finish = (): unknown => dryRun ? root : holder[0];
+  // Finds the container at `keys` to move a value into, starting from the holder of the root
+  const locate = (keys: readonly unknown[]): Container | undefined => {
+    if (copying) {
+      throw new Error(
+        `Values cannot be moved in copy-on-write traversals or dry runs`,
+      );
+    }
+    let container: Container = { node: holder, adapter: rootAdapter };
+    for (const key of [0, ...keys]) {
+      const child = getChild(container.node, key, container.adapter);
+      if (child === undefined) return undefined;
+      container = { node: child.value, adapter };
+    }
+    return container;
+  };
+  // Frames whose children are being visited: a stack in depth-first order, and a queue starting
+  // at `head` in breadth-first order
+  const frames: Frame[] = [
+    createFrame(holder, rootAdapter, undefined, true, rules)!,
+  ];
+  let head = 0;
+  while (frames.length > head) {
+    let frame = breadthFirst ? frames[head] : frames[frames.length - 1];
+    let then: VisitFlowControlThen = CONTINUE;
+    let silent: boolean;
+    if (advance(frame)) {
+      const child = frame.child;
+      if (frame.parent !== undefined) {
+        parents.push({ node: frame.node, key: frame.key });
+      }
+      silent = isReplacing(frame, child);
+      // The original of a replacement descended into was only entered, not descended into, so it
+      // is not a repeated value there
+      const repeated = silent ? undefined : checkSeen(
+        child,
+        parents,
+        () =>
+          frame.parent === undefined
+            ? undefined
+            : { up: frame.chain, entry: { node: frame.node, key: frame.key } },
+        seen,
+        cycles,
+      );
+      const prefetched = takePrefetched(frame);
+      let control = repeated ??
+        (silent
+          ? CONTINUE
+          : prefetched !== undefined
+          ? prefetched.control
+          : (yield { phase: "enter", node: child }) as
+            | VisitFlowControl
+            | void) ??
+        CONTINUE;
+      if (control.type === "replace_and_revisit") {
+        if (
+          revisit(
+            frame,
+            control.value,
+            parents,
+            maxRevisits,
+            prepare,
+            record,
+          )
+        ) {
+          // The replaced value was not descended into, so it may be found again in the new one
+          if (repeated === undefined && typeof child === "object") {
+            seen?.delete(child as object);
+          }
+          if (frame.parent !== undefined) parents.pop();
+          continue;
+        }
+        control = CONTINUE;
+      }
+      const entered = applyUpdate(
+        control,
+        frame,
+        parents,
+        prepare,
+        record,
+        locate,
+      );
+      then = entered.then;
+      if (entered.deleted || repeated !== undefined) {
+        if (frame.parent !== undefined) parents.pop();
+        if (!settle(frame, then)) return finish();
+        continue;
+      }
+      if (then.type === "continue") {
+        const replaced = descendIntoReplacement && control.type === "replace";
+        const childFrame = createFrame(
+          replaced ? frame.child : child,
+          adapter,
+          frame,
+          !copying,
+          rules,
+        );
+        if (childFrame !== undefined) {
+          childFrame.silent = silent;
+          if (replaced) childFrame.replacing = [...childFrame.replacing, child];
+          frames.push(childFrame);
+          if (!breadthFirst) {
+            if (concurrent) yield* prefetch(childFrame);
+            continue;
+          }
+        }
+      }
+    } else if (breadthFirst) {
+      // Drop the visited frames once they make up most of the queue
+      if (++head >= 1024 && head * 2 >= frames.length) {
+        frames.splice(0, head);
+        head = 0;
+      }
+      if (head === frames.length) break;
+      resetParents(frames[head]);
+      if (concurrent) yield* prefetch(frames[head]);
+      continue;
+    } else {
+      const done = frames.pop()!;
+      if (frames.length === 0) break;
+      frame = frames[frames.length - 1];
+      silent = done.silent;
+    }
+    // The current child of `frame` has been entered and, in depth-first order, its children
+    // visited
+    if (
+      hasLeave && !silent &&
+      (then.type === "continue" || then.type === "step_over")
+    ) {
+      let control = (yield { phase: "leave", node: frame.child }) as
+        | VisitFlowControl
+        | void ??
+        CONTINUE;
+      if (control.type === "replace_and_revisit") {
+        if (
+          revisit(
+            frame,
+            control.value,
+            parents,
+            maxRevisits,
+            prepare,
+            record,
+          )
+        ) {
+          if (frame.parent !== undefined) parents.pop();
+          continue;
+        }
+        control = CONTINUE;
+      }
+      then = applyUpdate(
+        control,
+        frame,
+        parents,
+        prepare,
+        record,
+        locate,
+      ).then;
+    }
+    if (frame.parent !== undefined) parents.pop();
+    if (!settle(frame, then)) return finish();
+  }
+  return finish();
+}
+
+/**
+ * Step of a parsed selector: the key to match, `undefined` for any key, and whether it can be
+ * matched at any depth.
+ * @internal
+ */
+type SelectorStep = {
+  readonly key: string | number | undefined;
+  readonly descendant: boolean;
+};
+
+/**
+ * Matches one step of a selector: `.name`, `.*`, `[0]`, `[*]`, `['name']` or `["name"]`,
+ * optionally starting with `..`.
+ * @internal
+ */
+const selectorStepPattern =
+  /(\.\.?)(?:([^.[\]*]+)|\*)|(\.\.)?\[(?:(\d+)|\*|'([^']*)'|"([^"]*)")\]/y;
+
+/**
+ * Parses a selector such as `$.users[*].email` into its steps.
+ * @internal
+ */
+const parseSelector = (selector: string): readonly SelectorStep[] => {
+  if (!selector.startsWith("$")) {
+    throw new Error(`Invalid selector: ${selector}`);
+  }
+  const steps: SelectorStep[] = [];
+  const pattern = new RegExp(selectorStepPattern);
+  pattern.lastIndex = 1;
+  while (pattern.lastIndex < selector.length) {
+    const match = pattern.exec(selector);
+    if (match === null) throw new Error(`Invalid selector: ${selector}`);
+    const [, dots, name, bracketDots, index, single, double] = match;
+    steps.push({
+      key: index !== undefined ? Number(index) : name ?? single ?? double,
+      descendant: dots === ".." || bracketDots === "..",
+    });
+  }
+  return steps;
+};
+
+/**
+ * Moves the matching states of a selector over `key`. A state is the number of steps matched.
+ * @internal
+ */
+const stepSelector = (
+  steps: readonly SelectorStep[],
+  states: readonly number[],
+  key: unknown,
+): readonly number[] => {
+  const next: number[] = [];
+  for (const state of states) {
+    if (state === steps.length) continue;
+    const step = steps[state];
+    if (step.descendant && !next.includes(state)) next.push(state);
+    if (
+      (step.key === undefined || step.key === key) &&
+      !next.includes(state + 1)
+    ) {
+      next.push(state + 1);
+    }
+  }
+  return next;
+};
+
+/**
+ * Creates a function telling which functions of a selector visitor match the value at the end of
+ * `parents`, and whether a selector can still match below it.
+ *
+ * Matching states are cached for each level of the current path, along with the parent
+ * information entry whose key they were computed from. The traversal creates a new entry each time
+ * it moves to another key, and keeps the entries of the ancestors while visiting the descendants
+ * of a value, so the cached levels are reused when the entry of the parent is the same one. They
+ * are computed again from the root otherwise, such as when the traversal did not reach the value
+ * through its parent just before, or reached a shared value through another path.
+ * @internal
+ */
+const createSelectorMatcher = <F>(
+  visitor: { readonly [selector: string]: F },
+): (
+  parents: readonly ParentInfo[],
+) => { readonly matches: readonly F[]; readonly alive: boolean } => {
+  const selectors = Object.entries(visitor).map(([selector, fn]) => ({
+    steps: parseSelector(selector),
+    fn,
+  }));
+  const levels: {
+    entry: ParentInfo | undefined;
+    states: readonly (readonly number[])[];
+  }[] = [];
+  return (parents) => {
+    const depth = parents.length;
+    let level = depth > 0 && levels.length >= depth &&
+        levels[depth - 1].entry === parents[depth - 2]
+      ? depth
+      : 0;
+    levels.length = level;
+    for (; level <= depth; level++) {
+      levels.push({
+        entry: level > 0 ? parents[level - 1] : undefined,
+        states: level === 0
+          ? selectors.map(() => [0])
+          : selectors.map(({ steps }, index) =>
+            stepSelector(
+              steps,
+              levels[level - 1].states[index],
+              parents[level - 1].key,
+            )
+          ),
+      });
+    }
+    const { states } = levels[depth];
+    return {
+      matches: selectors.filter(({ steps }, index) =>
+        states[index].includes(steps.length)
+      ).map(({ fn }) => fn),
+      alive: selectors.some(({ steps }, index) =>
+        states[index].some((state) => state < steps.length)
+      ),
+    };
+  };
+};
+
+/**
+ * Adjusts the flow control for a value below which no selector can match, so that its children
+ * are not traversed.
+ * @internal
+ */
+const pruneControl = (
+  control: VisitFlowControl,
+  alive: boolean,
+): VisitFlowControl => {
+  if (alive) return control;
+  if (control.type === "continue") return STEP_OVER;
+  if ("then" in control && control.then.type === "continue") {
+    return Object.freeze({ ...control, then: STEP_OVER });
+  }
+  return control;
+};
+
+/**
+ * Tells whether a visitor object is a selector visitor.
+ * @internal
+ */
+const isSelectorVisitor = (visitor: object): boolean =>
+  Object.keys(visitor).some((key) => key.startsWith("$"));
+
+/**
+ * Turns a selector visitor into a single visitor function.
+ * @internal
+ */
+const selectorVisitorFunction = <T>(
+  visitor: SelectorVisitor<T>,
+): VisitorFunction<T> => {
+  const match = createSelectorMatcher(visitor);
+  return (node, parents, context) => {
+    const { matches, alive } = match(parents);
+    for (const fn of matches) {
+      const control = fn(node, parents, context);
+      if (control && control.type !== "continue") {
+        return pruneControl(control, alive);
+      }
+    }
+    return pruneControl(CONTINUE, alive);
+  };
+};
+
+/**
+ * Async counterpart of `selectorVisitorFunction`.
+ * @internal
+ */
+const asyncSelectorVisitorFunction = <T>(
+  visitor: AsyncSelectorVisitor<T>,
+): AsyncVisitorFunction<T> => {
+  const match = createSelectorMatcher(visitor);
+  return async (node, parents, context) => {
+    const { matches, alive } = match(parents);
+    for (const fn of matches) {
+      const control = await fn(node, parents, context);
+      if (control && control.type !== "continue") {
+        return pruneControl(control, alive);
+      }
+    }
+    return pruneControl(CONTINUE, alive);
+  };
+};
+
+/**
+ * Splits a visitor into its `enter` and `leave` functions.
+ * @internal
+ */
+const splitVisitor = <T>(
+  visitor: Visitor<T>,
+): VisitorObject<T> =>
+  typeof visitor === "function"
+    ? { enter: visitor }
+    : isSelectorVisitor(visitor)
+    ? { enter: selectorVisitorFunction(visitor as SelectorVisitor<T>) }
+    : visitor as VisitorObject<T>;
+
+/**
+ * Async counterpart of `splitVisitor`.
+ * @internal
+ */
+const splitAsyncVisitor = <T>(
+  visitor: AsyncVisitor<T>,
+): AsyncVisitorObject<T> =>
+  typeof visitor === "function"
+    ? { enter: visitor }
+    : isSelectorVisitor(visitor)
+    ? {
+      enter: asyncSelectorVisitorFunction(visitor as AsyncSelectorVisitor<T>),
+    }
+    : visitor as AsyncVisitorObject<T>;
+
+/**
+ * Creates the context passed to the visitor along with `parents`.
+ * Its properties are only computed when read, from the current content of `parents`.
+ * @internal
+ */
+const createContext = (
+  parents: readonly ParentInfo[],
+  signal: AbortSignal | undefined,
+): VisitContext => ({
+  signal,
+  get path() {
+    return parents.map((parent) => parent.key);
+  },
+  get jsonPointer() {
+    return formatPointer(parents.map((parent) => parent.key));
+  },
+  get depth() {
+    return parents.length;
+  },
+  get key() {
+    return parents.at(-1)?.key;
+  },
+  get parent() {
+    return parents.at(-1)?.node;
+  },
+  get isRoot() {
+    return parents.length === 0;
+  },
+});
+
+/**
+ * Runs the traversal engine, calling the visitor synchronously. Returns the final root.
+ * @internal
+ */
+const run = <T>(
+  node: T,
+  visitor: Visitor<T>,
+  options: VisitOptions | undefined,
+  copyOnWrite: boolean,
+): unknown => {
+  const { enter, leave } = splitVisitor(visitor);
+  const parents: ParentInfo[] = [];
+  const engine = traverse(
+    node,
+    parents,
+    leave !== undefined,
+    options,
+    copyOnWrite,
+    false,
+  );
+  const signal = options?.signal;
+  const context = createContext(parents, signal);
+  signal?.throwIfAborted();
+  let step = engine.next();
+  while (!step.done) {
+    const request = step.value as Exclude<VisitRequest, { phase: "batch" }>;
+    const visitor = request.phase === "enter" ? enter : leave;
+    step = engine.next(visitor?.(request.node as any, parents, context));
+    signal?.throwIfAborted();
+  }
+  return step.value;
+};
+
+/**
+ * Calls `enter` on the items of a batch with at most `concurrency` calls in flight.
+ * No call is started once an item asked to skip its following siblings, once a call failed, or
+ * once `signal` is aborted.
+ * @internal
+ */
+const enterBatch = async <T>(
+  items: readonly BatchItem[],
+  enter: AsyncVisitorFunction<T> | undefined,
+  concurrency: number,
+  signal: AbortSignal | undefined,
+): Promise<BatchResult> => {
+  const results: { readonly control: VisitFlowControl | void }[] = [];
+  let next = 0;
+  let stopped = false;
+  const work = async (): Promise<void> => {
+    while (!stopped && next < items.length) {
+      const index = next++;
+      try {
+        signal?.throwIfAborted();
+        const { node, parents } = items[index];
+        const control = await enter?.(
+          node as any,
+          parents,
+          createContext(parents, signal),
+        );
+        results[index] = { control };
+        if (control && stopsSiblings(control)) stopped = true;
+      } catch (error) {
+        stopped = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, work),
+  );
+  return Array.from({ length: items.length }, (_, index) => results[index]);
+};
+
+/**
+ * Runs the traversal engine, awaiting the visitor. Resolves to the final root.
+ * @internal
+ */
+const runAsync = async <T>(
+  node: T,
+  visitor: AsyncVisitor<T>,
+  options: VisitOptions | undefined,
+  copyOnWrite: boolean,
+): Promise<unknown> => {
+  const { enter, leave } = splitAsyncVisitor(visitor);
+  const parents: ParentInfo[] = [];
+  const concurrency = options?.concurrency ?? 1;
+  if (!(concurrency >= 1)) {
+    throw new Error(`Invalid concurrency: ${concurrency}`);
+  }
+  const engine = traverse(
+    node,
+    parents,
+    leave !== undefined,
+    options,
+    copyOnWrite,
+    concurrency > 1,
+  );
+  const signal = options?.signal;
+  const context = createContext(parents, signal);
+  signal?.throwIfAborted();
+  let step = engine.next();
+  while (!step.done) {
+    const request = step.value;
+    if (request.phase === "batch") {
+      step = engine.next(
+        await enterBatch(request.items, enter, concurrency, signal),
+      );
+    } else {
+      const visitor = request.phase === "enter" ? enter : leave;
+      step = engine.next(
+        await visitor?.(request.node as any, parents, context),
+      );
+    }
+    signal?.throwIfAborted();
+  }
+  return step.value;
+};
+
+/**
+ * Synchronously traverses any data structure, calling a visitor function for each value.
+ *
+ * Visits all object properties and array elements recursively. The visitor function can
+ * return flow control instructions to modify traversal behavior, replace values, or delete values.
+ * Traversal uses an explicit stack rather than recursion, so deeply nested data cannot overflow
+ * the call stack.
+ *
+ * The visitor can also be an `{ enter, leave }` object. `leave` is called after the children of a
+ * value have been processed, for every value whose `enter` returned `CONTINUE` or `STEP_OVER`
+ * (possibly through `REPLACE`). It receives the value currently stored at that position and the
+ * same parent information as `enter`, and its `REPLACE`, `DELETE`, `BREAK` and `EXIT` controls are
+ * applied with the same semantics.
+ *
+ * The root can be replaced or deleted like any other value. `REPLACE` on the root honors its `then`
+ * control, and deleting the root makes the final root `undefined`.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to start traversal from
+ * @param visitor - Function called for each value, or an `{ enter, leave }` object.
+ *                  Receives the current value and array of parent information.
+ *                  Can return flow control instructions or void/undefined to continue normally.
+ * @param options - Traversal options. Set `cycles` to traverse cyclic or shared structures safely.
+ * @returns The final root: `node` itself, its replacement, or `undefined` when it was deleted
+ *
+ * @example
+ * ```ts
+ * const data = {
+ *   name: "root",
+ *   items: [
+ *     { type: "item", value: 1 },
+ *     { type: "item", value: 2 }
+ *   ],
+ *   config: { enabled: true }
+ * };
+ *
+ * visit(data, (value, parents) => {
+ *   console.log(`Visiting:`, value, `at depth: ${parents.length}`);
+ *   if (typeof value === "object" && value?.type === "item" && value.value === 1) {
+ *     return REPLACE({ ...value, value: 99 }, CONTINUE);
+ *   }
+ *   return CONTINUE;
+ * });
+ *
+ * // Unwrap a single-child wrapper
+ * const unwrapped = visit({ wrapper: data }, (value, parents) =>
+ *   parents.length === 0 ? REPLACE(value.wrapper, CONTINUE) : CONTINUE
+ * );
+ *
+ * // Post-order processing with enter/leave
+ * visit(data, {
+ *   enter: (value) => console.log("enter", value),
+ *   leave: (value) => console.log("leave", value),
+ * });
+ * ```
+ */
+export const visit = <T>(
+  node: T,
+  visitor: Visitor<T>,
+  options?: VisitOptions,
+): unknown => run(node, visitor, options, false);
+
+/**
+ * Asynchronously traverses any data structure, calling a visitor function for each value.
+ *
+ * Similar to the synchronous `visit` function, but supports async visitor functions
+ * that can perform asynchronous operations like API calls, file I/O, etc.
+ * Visits all object properties and array elements recursively.
+ * An `{ enter, leave }` object is accepted as well, with the same semantics as in `visit`.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to start traversal from
+ * @param visitor - Async function called for each value, or an `{ enter, leave }` object of such functions.
+ *                  Receives the current value and array of parent information.
+ *                  Can return flow control instructions, a Promise resolving to flow control instructions,
+ *                  or void/undefined to continue normally.
+ * @param options - Traversal options, same as for `visit`.
+ * @returns A Promise resolving to the final root, as returned by `visit`
+ *
+ * @example
+ * ```ts
+ * const data = {
+ *   name: "api-root",
+ *   endpoints: [
+ *     { type: "api-node", url: "/api/data" },
+ *     { type: "static", content: "hello" }
+ *   ]
+ * };
+ *
+ * await visitAsync(data, async (value, parents) => {
+ *   if (typeof value === "object" && value?.type === "api-node") {
+ *     const response = await fetch(value.url);
+ *     const data = await response.json();
+ *     return REPLACE({ ...value, data }, CONTINUE);
+ *   }
+ *   return CONTINUE;
+ * });
+ * ```
+ */
+export const visitAsync = <T>(
+  node: T,
+  visitor: AsyncVisitor<T>,
+  options?: VisitOptions,
+): Promise<unknown> => runAsync(node, visitor, options, false);
+
+/**
+ * Synchronously traverses any data structure like `visit`, but leaves it untouched and returns
+ * the updated root instead.
+ *
+ * Containers are shallowly copied before their first update, along with their ancestors, so the
+ * result shares every unchanged subtree with the input, and frozen data can be transformed.
+ * As with `visit`, the replacement of the root, or `undefined` when it was deleted, is returned.
+ * The visitor is called on the original values, while `parents` and `leave` reflect the copies made
+ * so far.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to start traversal from
+ * @param visitor - Function called for each value, or an `{ enter, leave }` object, as for `visit`.
+ * @param options - Traversal options, same as for `visit`. The adapter must implement `clone`.
+ * @returns The updated root, which is `node` itself when nothing was updated
+ *
+ * @example
+ * ```ts
+ * const state = Object.freeze({
+ *   todos: Object.freeze([Object.freeze({ done: false }), Object.freeze({ done: true })]),
+ * });
+ *
+ * const next = transform(state, (value) => {
+ *   if (typeof value === "object" && value !== null && "done" in value && value.done) {
+ *     return DELETE;
+ *   }
+ * });
+ * // next = { todos: [{ done: false }] }, next.todos[0] === state.todos[0]
+ * ```
+ */
+export const transform = <T>(
+  node: T,
+  visitor: Visitor<T>,
+  options?: VisitOptions,
+): unknown => run(node, visitor, options, true);
+
+/**
+ * Asynchronously traverses any data structure like `visitAsync`, but leaves it untouched and
+ * resolves to the updated root instead, with the same copy-on-write semantics as `transform`.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to start traversal from
+ * @param visitor - Async function called for each value, or an `{ enter, leave }` object of such functions.
+ * @param options - Traversal options, same as for `visit`. The adapter must implement `clone`.
+ * @returns A Promise resolving to the updated root, which is `node` itself when nothing was updated
+ *
+ * @example
+ * ```ts
+ * const config = { endpoint: { $ref: "/api" } };
+ *
+ * const resolved = await transformAsync(config, async (value) => {
+ *   if (typeof value === "object" && value !== null && "$ref" in value) {
+ *     const response = await fetch(value.$ref as string);
+ *     return REPLACE(await response.json(), STEP_OVER);
+ *   }
+ * });
+ * ```
+ */
+export const transformAsync = <T>(
+  node: T,
+  visitor: AsyncVisitor<T>,
+  options?: VisitOptions,
+): Promise<unknown> => runAsync(node, visitor, options, true);
+
+/**
+ * Traverses any data structure like `visit`, only calling the visitor on the values accepted by a
+ * type guard. The visitor parameter is narrowed accordingly, from the union of values found in the
+ * data structure when possible.
+ *
+ * @template T - The type of the root data structure
+ * @template U - The type accepted by the guard
+ * @param node - The root data structure to start traversal from
+ * @param guard - Type guard selecting the values to call the visitor on
+ * @param visitor - Function called for each selected value, as for `visit`
+ * @param options - Traversal options, same as for `visit`
+ * @returns The final root, as returned by `visit`
+ *
+ * @example
+ * ```ts
+ * const isLink = (value: unknown): value is { type: "link"; url: string } =>
+ *   typeof value === "object" && value !== null && "type" in value && value.type === "link";
+ *
+ * visitWhere(tree, isLink, (link) => {
+ *   link.url = link.url.replace("http:", "https:");
+ * });
+ * ```
+ */
+export const visitWhere = <T, U>(
+  node: T,
+  guard: (value: any) => value is U,
+  visitor: (
+    node: Narrow<T, U>,
+    parents: readonly ParentInfo[],
+    context: VisitContext,
+  ) => VisitFlowControl | void,
+  options?: VisitOptions,
+): unknown =>
+  visit(
+    node,
+    (value, parents, context) =>
+      guard(value)
+        ? visitor(value as Narrow<T, U>, parents, context)
+        : CONTINUE,
+    options,
+  );
+
+/**
+ * Async counterpart of `visitWhere`, traversing like `visitAsync`.
+ *
+ * @template T - The type of the root data structure
+ * @template U - The type accepted by the guard
+ * @param node - The root data structure to start traversal from
+ * @param guard - Type guard selecting the values to call the visitor on
+ * @param visitor - Async function called for each selected value, as for `visitAsync`
+ * @param options - Traversal options, same as for `visitAsync`
+ * @returns A Promise resolving to the final root, as returned by `visitAsync`
+ */
+export const visitWhereAsync = <T, U>(
+  node: T,
+  guard: (value: any) => value is U,
+  visitor: (
+    node: Narrow<T, U>,
+    parents: readonly ParentInfo[],
+    context: VisitContext,
+  ) => VisitFlowControl | void | Promise<VisitFlowControl | void>,
+  options?: VisitOptions,
+): Promise<unknown> =>
+  visitAsync(
+    node,
+    (value, parents, context) =>
+      guard(value)
+        ? visitor(value as Narrow<T, U>, parents, context)
+        : CONTINUE,
+    options,
+  );
+
+/**
+ * Returns the function of a type visitor for the `type` discriminant of `value`, if any.
+ * @internal
+ */
+const typeVisitorFunction = <F>(
+  visitor: { readonly [type: string]: F | undefined },
+  value: any,
+): F | undefined =>
+  typeof value === "object" && value !== null &&
+    typeof value.type === "string" &&
+    Object.prototype.hasOwnProperty.call(visitor, value.type)
+    ? visitor[value.type]
+    : undefined;
+
+/**
+ * Traverses any data structure like `visit`, calling the function keyed by the `type`
+ * discriminant of each value, as found in mdast or ESTree nodes. Each function receives the
+ * matching members of the union of values found in the data structure.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to start traversal from
+ * @param visitor - Functions keyed by `type`, called as for `visit`
+ * @param options - Traversal options, same as for `visit`
+ * @returns The final root, as returned by `visit`
+ *
+ * @example
+ * ```ts
+ * visitByType(mdast as Root, {
+ *   heading: (heading) => {
+ *     heading.depth = Math.min(heading.depth + 1, 6) as Heading["depth"];
+ *   },
+ *   code: () => STEP_OVER,
+ * }, { adapter: unistAdapter });
+ * ```
+ */
+export const visitByType = <T>(
+  node: T,
+  visitor: NoInfer<TypeVisitor<T>>,
+  options?: VisitOptions,
+): unknown =>
+  visit(
+    node,
+    (value, parents, context) =>
+      typeVisitorFunction(
+        visitor as { readonly [type: string]: VisitorFunction<T> | undefined },
+        value,
+      )?.(value, parents, context),
+    options,
+  );
+
+/**
+ * Async counterpart of `visitByType`, traversing like `visitAsync`.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to start traversal from
+ * @param visitor - Async functions keyed by `type`, called as for `visitAsync`
+ * @param options - Traversal options, same as for `visitAsync`
+ * @returns A Promise resolving to the final root, as returned by `visitAsync`
+ */
+export const visitByTypeAsync = <T>(
+  node: T,
+  visitor: NoInfer<AsyncTypeVisitor<T>>,
+  options?: VisitOptions,
+): Promise<unknown> =>
+  visitAsync(
+    node,
+    (value, parents, context) =>
+      typeVisitorFunction(
+        visitor as {
+          readonly [type: string]: AsyncVisitorFunction<T> | undefined;
+        },
+        value,
+      )?.(value, parents, context),
+    options,
+  );
+
+/**
+ * Creates the entry yielded by `walk` and `walkAsync` for `value`, with a copy of `parents`.
+ * @internal
+ */
+const createWalkEntry = <T>(
+  value: unknown,
+  parents: readonly ParentInfo[],
+  signal: AbortSignal | undefined,
+): WalkEntry<T> => {
+  const snapshot = parents.slice();
+  return Object.assign(createContext(snapshot, signal), {
+    value: value as RecursiveChildren<T>,
+    parents: snapshot,
+  });
+};
+
+/**
+ * Lazily traverses any data structure, yielding an entry for each value in the same order as
+ * `visit` calls its visitor.
+ *
+ * The flow control for a value can be sent back with `next()`, as a visitor would return it:
+ * `iterator.next(STEP_OVER)` skips the children of the last yielded value. Leaving the loop early
+ * stops the traversal. Once the iteration is complete, the generator returns the final root.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to start traversal from
+ * @param options - Traversal options, same as for `visit`
+ * @returns A generator of the values along with their location
+ *
+ * @example
+ * ```ts
+ * for (const { value, path } of walk(data)) {
+ *   if (value === "needle") {
+ *     console.log(path);
+ *     break;
+ *   }
+ * }
+ *
+ * // Sending flow controls back
+ * const iterator = walk(data);
+ * for (let step = iterator.next(); !step.done;) {
+ *   step = iterator.next(step.value.key === "private" ? STEP_OVER : CONTINUE);
+ * }
+ * ```
+ */
+export function* walk<T>(
+  node: T,
+  options?: VisitOptions,
+): Generator<WalkEntry<T>, unknown, VisitFlowControl | void> {
+  const parents: ParentInfo[] = [];
+  const engine = traverse(node, parents, false, options, false, false);
+  const signal = options?.signal;
+  signal?.throwIfAborted();
+  let step = engine.next();
+  while (!step.done) {
+    const request = step.value as Exclude<VisitRequest, { phase: "batch" }>;
+    step = engine.next(
+      yield createWalkEntry<T>(request.node, parents, signal),
+    );
+    signal?.throwIfAborted();
+  }
+  return step.value;
+}
+
+/**
+ * Async counterpart of `walk`, to be consumed with `for await`.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to start traversal from
+ * @param options - Traversal options, same as for `visit` except `concurrency`, as values are
+ *                  handed over one at a time
+ * @returns An async generator of the values along with their location
+ *
+ * @example
+ * ```ts
+ * for await (const { value, jsonPointer } of walkAsync(data, { signal })) {
+ *   await index(jsonPointer, value);
+ * }
+ * ```
+ */
+export async function* walkAsync<T>(
+  node: T,
+  options?: Omit<VisitOptions, "concurrency">,
+): AsyncGenerator<WalkEntry<T>, unknown, VisitFlowControl | void> {
+  return yield* walk(node, options);
+}
+
+/**
+ * Compares the positions of two values in the traversal order, from their parent information.
+ * @internal
+ */
+const compareLocations = (
+  a: readonly ParentInfo[],
+  b: readonly ParentInfo[],
+  options: VisitOptions | undefined,
+): number => {
+  if (options?.order === "bfs" && a.length !== b.length) {
+    return a.length - b.length;
+  }
+  for (let depth = 0; depth < Math.min(a.length, b.length); depth++) {
+    const { node, key } = a[depth];
+    const other = b[depth].key;
+    if (Object.is(key, other)) continue;
+    const children = visitedChildren(
+      node,
+      options?.adapter ?? defaultAdapter,
+      keyRules(options),
+    )!;
+    if (Array.isArray(children)) return (key as number) - (other as number);
+    for (const [child] of children as Iterable<readonly [unknown, unknown]>) {
+      if (Object.is(child, key)) return -1;
+      if (Object.is(child, other)) return 1;
+    }
+    return 0;
+  }
+  return a.length - b.length;
+};
+
+/**
+ * A value matched by an async predicate, with its parent information to sort it by location.
+ * @internal
+ */
+type AsyncMatch<T> = FindResult<T> & {
+  readonly parents: readonly ParentInfo[];
+};
+
+/**
+ * Calls `predicate` on the values of a data structure with `visitAsync` and returns the matches in
+ * traversal order, even when they were found concurrently. Stops at the first match when `first`.
+ * @internal
+ */
+const matchAsync = async <T>(
+  node: T,
+  predicate: AsyncVisitPredicate<T>,
+  options: VisitOptions | undefined,
+  first: boolean,
+): Promise<FindResult<T>[]> => {
+  const matches: AsyncMatch<T>[] = [];
+  await visitAsync(node, async (value, parents, context) => {
+    if (await predicate(value, parents, context)) {
+      matches.push({ value, path: context.path, parents: parents.slice() });
+      if (first) return EXIT;
+    }
+  }, options);
+  if ((options?.concurrency ?? 1) > 1) {
+    matches.sort((a, b) => compareLocations(a.parents, b.parents, options));
+  }
+  return (first ? matches.slice(0, 1) : matches).map(({ value, path }) => ({
+    value,
+    path,
+  }));
+};
+
+/**
+ * Returns the first value for which `predicate` returns true, in traversal order, along with its
+ * key path. The traversal stops as soon as it is found.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to search
+ * @param predicate - Function called on each value, as a visitor would be
+ * @param options - Traversal options, same as for `visit`. Use `order: "bfs"` to find the
+ *                  shallowest match.
+ * @returns The value found and its key path, or `undefined` when there is none
+ *
+ * @example
+ * ```ts
+ * const admin = find(data, (value) =>
+ *   typeof value === "object" && value !== null && "role" in value && value.role === "admin"
+ * );
+ * // admin = { value: { name: "a", role: "admin" }, path: ["users", 3] }
+ * ```
+ */
+export const find = <T>(
+  node: T,
+  predicate: VisitPredicate<T>,
+  options?: VisitOptions,
+): FindResult<T> | undefined => {
+  let result: FindResult<T> | undefined;
+  visit(node, (value, parents, context) => {
+    if (predicate(value, parents, context)) {
+      result = { value, path: context.path };
+      return EXIT;
+    }
+  }, options);
+  return result;
+};
+
+/**
+ * Async counterpart of `find`. With `concurrency`, the first value in traversal order is still the
+ * one returned.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to search
+ * @param predicate - Async function called on each value, as a visitor would be
+ * @param options - Traversal options, same as for `visitAsync`
+ * @returns A Promise resolving to the value found and its key path, or `undefined`
+ */
+export const findAsync = async <T>(
+  node: T,
+  predicate: AsyncVisitPredicate<T>,
+  options?: VisitOptions,
+): Promise<FindResult<T> | undefined> =>
+  (await matchAsync(node, predicate, options, true))[0];
+
+/**
+ * Returns all the values for which `predicate` returns true, in traversal order, along with their
+ * key paths.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to search
+ * @param predicate - Function called on each value, as a visitor would be
+ * @param options - Traversal options, same as for `visit`
+ * @returns The values found and their key paths
+ *
+ * @example
+ * ```ts
+ * const emails = findAll(data, (value, parents, { key }) => key === "email")
+ *   .map(({ value }) => value);
+ * ```
+ */
+export const findAll = <T>(
+  node: T,
+  predicate: VisitPredicate<T>,
+  options?: VisitOptions,
+): FindResult<T>[] => {
+  const results: FindResult<T>[] = [];
+  visit(node, (value, parents, context) => {
+    if (predicate(value, parents, context)) {
+      results.push({ value, path: context.path });
+    }
+  }, options);
+  return results;
+};
+
+/**
+ * Async counterpart of `findAll`. With `concurrency`, the values are still returned in traversal
+ * order.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to search
+ * @param predicate - Async function called on each value, as a visitor would be
+ * @param options - Traversal options, same as for `visitAsync`
+ * @returns A Promise resolving to the values found and their key paths
+ */
+export const findAllAsync = <T>(
+  node: T,
+  predicate: AsyncVisitPredicate<T>,
+  options?: VisitOptions,
+): Promise<FindResult<T>[]> => matchAsync(node, predicate, options, false);
+
+/**
+ * Tells whether `predicate` returns true for at least one value, stopping at the first one.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to search
+ * @param predicate - Function called on each value, as a visitor would be
+ * @param options - Traversal options, same as for `visit`
+ * @returns Whether a value matched
+ */
+export const some = <T>(
+  node: T,
+  predicate: VisitPredicate<T>,
+  options?: VisitOptions,
+): boolean => find(node, predicate, options) !== undefined;
+
+/**
+ * Async counterpart of `some`.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to search
+ * @param predicate - Async function called on each value, as a visitor would be
+ * @param options - Traversal options, same as for `visitAsync`
+ * @returns A Promise resolving to whether a value matched
+ */
+export const someAsync = async <T>(
+  node: T,
+  predicate: AsyncVisitPredicate<T>,
+  options?: VisitOptions,
+): Promise<boolean> => {
+  let matched = false;
+  await visitAsync(node, async (value, parents, context) => {
+    if (await predicate(value, parents, context)) {
+      matched = true;
+      return EXIT;
+    }
+  }, options);
+  return matched;
+};
+
+/**
+ * Tells whether `predicate` returns true for all the values, stopping at the first one for which
+ * it does not.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to check
+ * @param predicate - Function called on each value, as a visitor would be
+ * @param options - Traversal options, same as for `visit`
+ * @returns Whether all the values matched
+ */
+export const every = <T>(
+  node: T,
+  predicate: VisitPredicate<T>,
+  options?: VisitOptions,
+): boolean =>
+  !some(
+    node,
+    (value, parents, context) => !predicate(value, parents, context),
+    options,
+  );
+
+/**
+ * Async counterpart of `every`.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to check
+ * @param predicate - Async function called on each value, as a visitor would be
+ * @param options - Traversal options, same as for `visitAsync`
+ * @returns A Promise resolving to whether all the values matched
+ */
+export const everyAsync = async <T>(
+  node: T,
+  predicate: AsyncVisitPredicate<T>,
+  options?: VisitOptions,
+): Promise<boolean> =>
+  !(await someAsync(
+    node,
+    async (value, parents, context) =>
+      !(await predicate(value, parents, context)),
+    options,
+  ));
+
+/**
+ * Counts the values for which `predicate` returns true.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to search
+ * @param predicate - Function called on each value, as a visitor would be
+ * @param options - Traversal options, same as for `visit`
+ * @returns The number of values that matched
+ */
+export const count = <T>(
+  node: T,
+  predicate: VisitPredicate<T>,
+  options?: VisitOptions,
+): number => {
+  let matched = 0;
+  visit(node, (value, parents, context) => {
+    if (predicate(value, parents, context)) matched++;
+  }, options);
+  return matched;
+};
+
+/**
+ * Async counterpart of `count`.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to search
+ * @param predicate - Async function called on each value, as a visitor would be
+ * @param options - Traversal options, same as for `visitAsync`
+ * @returns A Promise resolving to the number of values that matched
+ */
+export const countAsync = async <T>(
+  node: T,
+  predicate: AsyncVisitPredicate<T>,
+  options?: VisitOptions,
+): Promise<number> => {
+  let matched = 0;
+  await visitAsync(node, async (value, parents, context) => {
+    if (await predicate(value, parents, context)) matched++;
+  }, options);
+  return matched;
+};
+
+/**
+ * Collects the results of the children of the values being folded, by depth.
+ * @internal
+ */
+type FoldState<R> = {
+  readonly levels: Map<unknown, R>[];
+  result: R | undefined;
+};
+
+/**
+ * Creates the state of a fold. Throws on breadth-first order, as results are computed bottom-up.
+ * @internal
+ */
+const createFoldState = <R>(
+  options: VisitOptions | undefined,
+): FoldState<R> => {
+  if (options?.order === "bfs") {
+    throw new Error(`Breadth-first order is not supported when folding`);
+  }
+  return { levels: [], result: undefined };
+};
+
+/**
+ * Takes the results of the children of the value at `depth`, which are all known once it is left.
+ * @internal
+ */
+const takeFoldResults = <R>(
+  state: FoldState<R>,
+  depth: number,
+): ReadonlyMap<unknown, R> => {
+  const results = state.levels[depth + 1] ?? new Map<unknown, R>();
+  state.levels.length = depth + 1;
+  return results;
+};
+
+/**
+ * Records `result` as the result of the value at the end of `parents`.
+ * @internal
+ */
+const storeFoldResult = <R>(
+  state: FoldState<R>,
+  parents: readonly ParentInfo[],
+  result: R,
+): void => {
+  const depth = parents.length;
+  if (depth === 0) {
+    state.result = result;
+    return;
+  }
+  (state.levels[depth] ??= new Map<unknown, R>()).set(
+    parents[depth - 1].key,
+    result,
+  );
+};
+
+/**
+ * Computes a result for a data structure bottom-up: `leaf` is called on the values that are not
+ * containers, and `combine` on each container, even empty, with the results of its children, once
+ * they are all known. The result of the root is returned.
+ *
+ * Values are processed in depth-first post-order, and the data structure is left untouched.
+ * Values skipped through the `cycles` option have no result, and are missing from the results of
+ * their parent. Breadth-first order is not supported.
+ *
+ * @template T - The type of the root data structure
+ * @template R - The type of the results
+ * @param node - The root data structure to fold
+ * @param reducer - Functions computing the results of the other values and of the containers
+ * @param options - Traversal options, same as for `visit`
+ * @returns The result of the root
+ *
+ * @example
+ * ```ts
+ * // Number of values in the data structure
+ * const size = fold(data, {
+ *   leaf: () => 1,
+ *   combine: (_, results) => 1 + [...results.values()].reduce((a, b) => a + b, 0),
+ * });
+ *
+ * // Shape of JSON data
+ * const schema = fold(data, {
+ *   leaf: (value) => typeof value,
+ *   combine: (value, results) =>
+ *     Array.isArray(value) ? [...results.values()] : Object.fromEntries(results),
+ * });
+ * ```
+ */
+export const fold = <T, R>(
+  node: T,
+  reducer: FoldReducer<T, R>,
+  options?: VisitOptions,
+): R => {
+  const adapter = options?.adapter ?? defaultAdapter;
+  const state = createFoldState<R>(options);
+  visit(node, {
+    leave: (value, parents, context) => {
+      const results = takeFoldResults(state, parents.length);
+      storeFoldResult(
+        state,
+        parents,
+        adapter.getChildren(value) === undefined
+          ? reducer.leaf(value, parents, context)
+          : reducer.combine(value, results, parents, context),
+      );
+    },
+  }, options);
+  return state.result as R;
+};
+
+/**
+ * Async counterpart of `fold`. `leaf` and `combine` are awaited one at a time, in post-order.
+ *
+ * @template T - The type of the root data structure
+ * @template R - The type of the results
+ * @param node - The root data structure to fold
+ * @param reducer - Async functions computing the results of the values without and with children
+ * @param options - Traversal options, same as for `visitAsync`
+ * @returns A Promise resolving to the result of the root
+ *
+ * @example
+ * ```ts
+ * const digest = await foldAsync(data, {
+ *   leaf: (value) => hash(JSON.stringify(value)),
+ *   combine: (_, results) => hash([...results.values()].join()),
+ * });
+ * ```
+ */
+export const foldAsync = async <T, R>(
+  node: T,
+  reducer: AsyncFoldReducer<T, R>,
+  options?: VisitOptions,
+): Promise<R> => {
+  const adapter = options?.adapter ?? defaultAdapter;
+  const state = createFoldState<R>(options);
+  await visitAsync(node, {
+    leave: async (value, parents, context) => {
+      const results = takeFoldResults(state, parents.length);
+      storeFoldResult(
+        state,
+        parents,
+        adapter.getChildren(value) === undefined
+          ? await reducer.leaf(value, parents, context)
+          : await reducer.combine(value, results, parents, context),
+      );
+    },
+  }, options);
+  return state.result as R;
+};
+
+/**
+ * Pair of values to compare at `path`.
+ * @internal
+ */
+type DiffTask = {
+  readonly before: unknown;
+  readonly after: unknown;
+  readonly path: readonly unknown[];
+};
+
+/**
+ * Collects children as returned by an adapter into a map, keyed by index for a list.
+ * @internal
+ */
+const childEntries = (children: VisitChildren): Map<unknown, unknown> =>
+  new Map(
+    Array.isArray(children)
+      ? children.entries()
+      : children as Iterable<readonly [unknown, unknown]>,
+  );
+
+/**
+ * Compares two arrays by the identity of their elements. Elements that are missing from `after`
+ * are removed first, then elements of `after` are added or moved in place from left to right, so
+ * that the operations are valid in order. Elements kept in place are compared afterwards.
+ * @internal
+ */
+const diffArrayByIdentity = (
+  before: readonly unknown[],
+  after: readonly unknown[],
+  path: readonly unknown[],
+  identify: (item: unknown) => unknown,
+  operations: JsonPatchOperation[],
+  tasks: DiffTask[],
+): void => {
+  const afterIds = after.map(identify);
+  // Number of elements of `after` left to match, by identity
+  const remaining = new Map<unknown, number>();
+  for (const id of afterIds) remaining.set(id, (remaining.get(id) ?? 0) + 1);
+  const current: unknown[] = [];
+  const currentIds: unknown[] = [];
+  const removed: number[] = [];
+  before.forEach((item, index) => {
+    const id = identify(item);
+    const count = remaining.get(id) ?? 0;
+    if (count === 0) {
+      removed.push(index);
+    } else {
+      remaining.set(id, count - 1);
+      current.push(item);
+      currentIds.push(id);
+    }
+  });
+  for (let index = removed.length - 1; index >= 0; index--) {
+    operations.push({
+      op: "remove",
+      path: formatPointer([...path, removed[index]]),
+    });
+  }
+  after.forEach((item, index) => {
+    const position = currentIds.indexOf(afterIds[index], index);
+    if (position === index) {
+      tasks.push({
+        before: current[index],
+        after: item,
+        path: [...path, index],
+      });
+      return;
+    }
+    if (position !== -1) {
+      operations.push({
+        op: "remove",
+        path: formatPointer([...path, position]),
+      });
+      current.splice(position, 1);
+      currentIds.splice(position, 1);
+    }
+    operations.push({
+      op: "add",
+      path: formatPointer([...path, index]),
+      value: item,
+    });
+    current.splice(index, 0, item);
+    currentIds.splice(index, 0, afterIds[index]);
+  });
+};
+
+/**
+ * Computes the operations turning `before` into `after`, as a JSON Patch (RFC 6902).
+ *
+ * Children are enumerated with the adapter, as during a traversal. Containers of the same
+ * prototype are compared child by child, and any other pair of different values, compared with
+ * `Object.is`, is replaced as a whole. The operations are meant to be applied in order: those of a
+ * container come before those of its children, and array elements are removed from the end.
+ * Values in the operations are taken from `after` without being copied, and keys that are not
+ * strings are formatted with `String` in the paths, as in `jsonPointer`.
+ *
+ * With `arrayIdentity`, an element that moved is removed and added again at its new position.
+ *
+ * @template T - The type of the data structures
+ * @param before - The original data structure
+ * @param after - The updated data structure
+ * @param options - Diff options
+ * @returns The JSON Patch operations, empty when both are equal
+ *
+ * @example
+ * ```ts
+ * diff(
+ *   { name: "app", tags: ["a", "b"], debug: true },
+ *   { name: "app2", tags: ["a", "b", "c"] },
+ * );
+ * // [
+ * //   { op: "remove", path: "/debug" },
+ * //   { op: "replace", path: "/name", value: "app2" },
+ * //   { op: "add", path: "/tags/2", value: "c" },
+ * // ]
+ *
+ * // Match users by id rather than by index
+ * diff(before, after, { arrayIdentity: "id" });
+ * ```
+ */
+export const diff = <T>(
+  before: T,
+  after: T,
+  options?: DiffOptions,
+): JsonPatchOperation[] => {
+  const adapter = options?.adapter ?? defaultAdapter;
+  const arrayIdentity = options?.arrayIdentity;
+  const identify = typeof arrayIdentity === "string"
+    ? (item: any): unknown => item?.[arrayIdentity]
+    : arrayIdentity;
+  const operations: JsonPatchOperation[] = [];
+  const tasks: DiffTask[] = [{ before, after, path: [] }];
+  while (tasks.length > 0) {
+    const { before, after, path } = tasks.pop()!;
+    if (Object.is(before, after)) continue;
+    const beforeChildren = adapter.getChildren(before);
+    const afterChildren = adapter.getChildren(after);
+    if (
+      beforeChildren === undefined || afterChildren === undefined ||
+      Object.getPrototypeOf(before) !== Object.getPrototypeOf(after)
+    ) {
+      operations.push({
+        op: "replace",
+        path: formatPointer(path),
+        value: after,
+      });
+      continue;
+    }
+    // Children to compare, pushed in reverse so that they are compared in order
+    const children: DiffTask[] = [];
+    if (Array.isArray(beforeChildren) && Array.isArray(afterChildren)) {
+      if (identify !== undefined) {
+        diffArrayByIdentity(
+          beforeChildren,
+          afterChildren,
+          path,
+          identify,
+          operations,
+          children,
+        );
+      } else {
+        const length = Math.min(beforeChildren.length, afterChildren.length);
+        for (let index = 0; index < length; index++) {
+          children.push({
+            before: beforeChildren[index],
+            after: afterChildren[index],
+            path: [...path, index],
+          });
+        }
+        for (let index = beforeChildren.length - 1; index >= length; index--) {
+          operations.push({
+            op: "remove",
+            path: formatPointer([...path, index]),
+          });
+        }
+        for (let index = length; index < afterChildren.length; index++) {
+          operations.push({
+            op: "add",
+            path: formatPointer([...path, index]),
+            value: afterChildren[index],
+          });
+        }
+      }
+    } else {
+      const beforeEntries = childEntries(beforeChildren);
+      const afterEntries = childEntries(afterChildren);
+      for (const [key, value] of beforeEntries) {
+        if (afterEntries.has(key)) {
+          children.push({
+            before: value,
+            after: afterEntries.get(key),
+            path: [...path, key],
+          });
+        } else {
+          operations.push({
+            op: "remove",
+            path: formatPointer([...path, key]),
+          });
+        }
+      }
+      for (const [key, value] of afterEntries) {
+        if (!beforeEntries.has(key)) {
+          operations.push({
+            op: "add",
+            path: formatPointer([...path, key]),
+            value,
+          });
+        }
+      }
+    }
+    for (let index = children.length - 1; index >= 0; index--) {
+      tasks.push(children[index]);
+    }
+  }
+  return operations;
+};
+
+/**
+ * Splits a JSON Pointer (RFC 6901) into its unescaped tokens.
+ * @internal
+ */
+const parsePointer = (pointer: string): string[] => {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new Error(`Invalid JSON Pointer: ${pointer}`);
+  }
+  return pointer.slice(1).split("/").map((token) =>
+    token.replaceAll("~1", "/").replaceAll("~0", "~")
+  );
+};
+
+/**
+ * Finds the child of `node` designated by a JSON Pointer token, comparing it with the keys
+ * formatted by `String`. Returns `undefined` when there is no such child.
+ * @internal
+ */
+const findChild = (
+  node: unknown,
+  token: string,
+  adapter: VisitAdapter,
+): { readonly key: unknown; readonly value: unknown } | undefined => {
+  const children = adapter.getChildren(node);
+  if (children === undefined) return undefined;
+  if (Array.isArray(children)) {
+    const index = /^(?:0|[1-9]\d*)$/.test(token) ? Number(token) : -1;
+    return index >= 0 && index < children.length
+      ? { key: index, value: children[index] }
+      : undefined;
+  }
+  for (
+    const [key, value] of children as Iterable<readonly [unknown, unknown]>
+  ) {
+    if (String(key) === token) return { key, value };
+  }
+  return undefined;
+};
+
+/**
+ * Location designated by a JSON Pointer: the container, the token in it and the child found there,
+ * if any.
+ * @internal
+ */
+type PatchTarget = {
+  readonly container: unknown;
+  readonly adapter: VisitAdapter;
+  readonly token: string;
+  readonly child:
+    | { readonly key: unknown; readonly value: unknown }
+    | undefined;
+};
+
+/**
+ * Finds the location designated by `pointer`, starting from the single-element array holding
+ * the root.
+ * @internal
+ */
+const locatePatchTarget = (
+  holder: unknown[],
+  pointer: string,
+  adapter: VisitAdapter,
+): PatchTarget => {
+  let container: unknown = holder;
+  let containerAdapter = rootAdapter;
+  let token = "0";
+  for (const next of parsePointer(pointer)) {
+    const child = findChild(container, token, containerAdapter);
+    if (child === undefined) throw new Error(`No value found at ${pointer}`);
+    container = child.value;
+    containerAdapter = adapter;
+    token = next;
+  }
+  return {
+    container,
+    adapter: containerAdapter,
+    token,
+    child: findChild(container, token, containerAdapter),
+  };
+};
+
+/**
+ * Adds `value` at `target` as the JSON Patch `add` operation does.
+ * @internal
+ */
+const addPatchValue = (
+  target: PatchTarget,
+  value: unknown,
+  pointer: string,
+): void => {
+  const { container, token } = target;
+  if (Array.isArray(container)) {
+    const index = token === "-" ? container.length : Number(token);
+    if (!/^(?:0|[1-9]\d*|-)$/.test(token) || index > container.length) {
+      throw new Error(`Invalid array index at ${pointer}`);
+    }
+    container.splice(index, 0, value);
+  } else if (container instanceof Set) {
+    // Members are their own keys
+    container.add(value);
+  } else {
+    target.adapter.setChild(container, target.child?.key ?? token, value);
+  }
+};
+
+/**
+ * Applies JSON Patch (RFC 6902) operations in order, updating the data structure in place like
+ * `visit` does, and returns the final root.
+ *
+ * The `add`, `remove`, `replace` and `move` operations produced by `diff` and the `onPatch` option
+ * are supported. Children are found and updated with the adapter. Adding to an array inserts the
+ * value at the given index, or at the end for `-`, adding to a `Set` adds the value itself, and
+ * adding to any other container sets the key.
+ *
+ * Pointers only hold strings: existing children are found by comparing their keys formatted by
+ * `String`, but new `Map` entries are keyed by the pointer token, so a `Map` key that is not a
+ * string, such as the number `2`, comes back as the string `"2"`.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to update
+ * @param operations - The operations to apply
+ * @param options - Patch options
+ * @returns The final root: `node` itself, its replacement, or `undefined` when it was removed
+ *
+ * @example
+ * ```ts
+ * // Record the updates of a traversal and replay them on a copy
+ * const operations: JsonPatchOperation[] = [];
+ * visit(data, visitor, { onPatch: (operation) => operations.push(operation) });
+ * const replayed = applyPatch(copy, operations);
+ * ```
+ */
+export const applyPatch = <T>(
+  node: T,
+  operations: readonly JsonPatchOperation[],
+  options?: ApplyPatchOptions,
+): unknown => {
+  const adapter = options?.adapter ?? defaultAdapter;
+  const holder: unknown[] = [node];
+  for (const operation of operations) {
+    const target = locatePatchTarget(holder, operation.path, adapter);
+    switch (operation.op) {
+      case "add":
+        addPatchValue(target, operation.value, operation.path);
+        break;
+      case "remove":
+      case "replace":
+        if (target.child === undefined) {
+          throw new Error(`No value found at ${operation.path}`);
+        }
+        if (operation.op === "remove") {
+          target.adapter.deleteChild(target.container, target.child.key);
+        } else {
+          target.adapter.setChild(
+            target.container,
+            target.child.key,
+            operation.value,
+          );
+        }
+        break;
+      case "move": {
+        const source = locatePatchTarget(holder, operation.from, adapter);
+        if (source.child === undefined) {
+          throw new Error(`No value found at ${operation.from}`);
+        }
+        source.adapter.deleteChild(source.container, source.child.key);
+        // The destination is located once the value is removed
+        addPatchValue(
+          locatePatchTarget(holder, operation.path, adapter),
+          source.child.value,
+          operation.path,
+        );
+        break;
+      }
+      default:
+        throw new Error(
+          `Unsupported patch operation: ${
+            (operation satisfies never as { op: string }).op
+          }`,
+        );
+    }
+  }
+  return holder[0];
+};
+
+/**
+ * Flow controls returned so far by the visitors being composed, for a single value.
+ * @internal
+ */
+type Composition = {
+  /** The current value, as replaced by the first `REPLACE` */
+  value: unknown;
+  /** The first update, applied whatever the following visitors return */
+  update:
+    | VisitFlowControlReplace
+    | VisitFlowControlInsertBefore
+    | VisitFlowControlInsertAfter
+    | VisitFlowControlRename
+    | undefined;
+  exit: boolean;
+  break: boolean;
+  /** Whether all the visitors so far asked to step over */
+  stepOver: boolean;
+};
+
+/**
+ * Returns the flow control to follow after the visitors composed so far.
+ * @internal
+ */
+const composedThen = (composition: Composition): VisitFlowControlThen =>
+  composition.exit
+    ? EXIT
+    : composition.break
+    ? BREAK
+    : composition.stepOver
+    ? STEP_OVER
+    : CONTINUE;
+
+/**
+ * Returns the flow control of a composition after the visitors composed so far.
+ * @internal
+ */
+const composedControl = (composition: Composition): VisitFlowControl =>
+  composition.update === undefined
+    ? composedThen(composition)
+    : Object.freeze({ ...composition.update, then: composedThen(composition) });
+
+/**
+ * Records the flow control returned by one of the visitors being composed. Returns the flow control
+ * of the composition when the following visitors must not be called.
+ * @internal
+ */
+const composeControl = (
+  composition: Composition,
+  control: VisitFlowControl,
+): VisitFlowControl | undefined => {
+  // Updates after the first one are ignored, but their flow control still counts
+  const first = composition.update === undefined;
+  if (control.type === "replace_and_revisit") {
+    // All the visitors are called again on the new value
+    if (first) return control;
+    control = CONTINUE;
+  }
+  const then = "then" in control ? control.then : control;
+  composition.exit ||= then.type === "exit";
+  composition.break ||= then.type === "break";
+  composition.stepOver &&= then.type === "step_over";
+  if (!first) {
+    return composition.exit ? composedControl(composition) : undefined;
+  }
+  if (
+    control.type === "delete" || control.type === "replace_with_many" ||
+    control.type === "move"
+  ) {
+    // The current value is gone
+    return Object.freeze({ ...control, then: composedThen(composition) });
+  }
+  if (
+    control.type === "replace" || control.type === "insert_before" ||
+    control.type === "insert_after" || control.type === "rename"
+  ) {
+    composition.update = control;
+    if (control.type === "replace") composition.value = control.value;
+  }
+  return composition.exit ? composedControl(composition) : undefined;
+};
+
+/**
+ * Creates the state of a composition for `node`.
+ * @internal
+ */
+const createComposition = (node: unknown): Composition => ({
+  value: node,
+  update: undefined,
+  exit: false,
+  break: false,
+  stepOver: true,
+});
+
+/**
+ * Combines the `enter` or `leave` functions of the visitors being composed into a single one.
+ * @internal
+ */
+const composeFunctions = <T>(
+  fns: readonly (VisitorFunction<T> | undefined)[],
+): VisitorFunction<T> | undefined => {
+  const defined = fns.filter((fn) => fn !== undefined);
+  if (defined.length === 0) return undefined;
+  return (node, parents, context) => {
+    const composition = createComposition(node);
+    for (const fn of defined) {
+      const control = composeControl(
+        composition,
+        fn(composition.value as RecursiveChildren<T>, parents, context) ??
+          CONTINUE,
+      );
+      if (control !== undefined) return control;
+    }
+    return composedControl(composition);
+  };
+};
+
+/**
+ * Async counterpart of `composeFunctions`.
+ * @internal
+ */
+const composeAsyncFunctions = <T>(
+  fns: readonly (AsyncVisitorFunction<T> | undefined)[],
+): AsyncVisitorFunction<T> | undefined => {
+  const defined = fns.filter((fn) => fn !== undefined);
+  if (defined.length === 0) return undefined;
+  return async (node, parents, context) => {
+    const composition = createComposition(node);
+    for (const fn of defined) {
+      const control = composeControl(
+        composition,
+        await fn(composition.value as RecursiveChildren<T>, parents, context) ??
+          CONTINUE,
+      );
+      if (control !== undefined) return control;
+    }
+    return composedControl(composition);
+  };
+};
+
+/**
+ * Combines several visitors into a single one, so that they all run in a single traversal.
+ *
+ * For each value, the visitors are called in order, both on enter and on leave, and their flow
+ * controls are combined:
+ *
+ * - the first update wins, and the following ones are ignored. After `REPLACE`, the following
+ *   visitors are called on the new value.
+ * - the first `DELETE`, `REPLACE_WITH_MANY`, `MOVE` or `REPLACE_AND_REVISIT`, unless preceded by
+ *   another update, is returned right away, without calling the following visitors. After
+ *   `REPLACE_AND_REVISIT`, all the visitors are called on the new value.
+ * - any `EXIT` exits right away, and any `BREAK` breaks once all the visitors were called
+ * - `STEP_OVER` only applies when all the visitors agree: otherwise the children are visited by all
+ *   the visitors
+ *
+ * @template T - The type of the root data structure
+ * @param visitors - Visitors accepted by `visit`, in order of precedence
+ * @returns A visitor running all of them
+ *
+ * @example
+ * ```ts
+ * visit(document, composeVisitors(removeComments, trimStrings, { "$..password": redact }));
+ * ```
+ */
+export const composeVisitors = <T>(
+  ...visitors: readonly Visitor<T>[]
+): VisitorObject<T> => {
+  const split = visitors.map(splitVisitor);
+  return {
+    enter: composeFunctions(split.map(({ enter }) => enter)),
+    leave: composeFunctions(split.map(({ leave }) => leave)),
+  };
+};
+
+/**
+ * Async counterpart of `composeVisitors`, combining visitors accepted by `visitAsync`.
+ *
+ * @template T - The type of the root data structure
+ * @param visitors - Visitors accepted by `visitAsync`, in order of precedence
+ * @returns An async visitor running all of them
+ */
+export const composeAsyncVisitors = <T>(
+  ...visitors: readonly AsyncVisitor<T>[]
+): AsyncVisitorObject<T> => {
+  const split = visitors.map(splitAsyncVisitor);
+  return {
+    enter: composeAsyncFunctions(split.map(({ enter }) => enter)),
+    leave: composeAsyncFunctions(split.map(({ leave }) => leave)),
+  };
+};
+
+/**
+ * Error thrown when rewriting does not reach a fixed point, locating the last update made.
+ * @internal
+ */
+const fixpointError = (
+  maxIterations: number,
+  change: VisitChange,
+): Error =>
+  new Error(
+    `No fixed point reached after ${maxIterations} passes (last updated value at ${
+      formatPath(change.path)
+    })`,
+  );
+
+/**
+ * Applies rewriting rules with `visit` again and again, until a traversal makes no update.
+ *
+ * Rules are visitors updating the data structure in place with `REPLACE`, `REPLACE_AND_REVISIT` or
+ * `DELETE`. Several rules are combined with `composeVisitors`. An error locating the last update is
+ * thrown when updates are still made after `maxIterations` passes, as with rules undoing each
+ * other.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to rewrite
+ * @param rules - A visitor, or visitors to combine with `composeVisitors`
+ * @param options - Traversal options, same as for `visit` except `dryRun`, and `maxIterations`
+ * @returns The final root and the number of passes made
+ *
+ * @example
+ * ```ts
+ * // Flatten nested `and` nodes and fold constants until nothing changes
+ * const { root, passes } = rewriteToFixpoint(expression, [flattenAnd, foldConstants], {
+ *   maxIterations: 10,
+ * });
+ * ```
+ */
+export const rewriteToFixpoint = <T>(
+  node: T,
+  rules: Visitor<T> | readonly Visitor<T>[],
+  options?: RewriteOptions,
+): RewriteResult => {
+  const visitor = Array.isArray(rules)
+    ? composeVisitors(...rules as readonly Visitor<T>[])
+    : rules as Visitor<T>;
+  const maxIterations = options?.maxIterations ?? 100;
+  let root: unknown = node;
+  let change: VisitChange | undefined;
+  const passOptions: VisitOptions = {
+    ...options,
+    onChange: (update) => {
+      change = update;
+      options?.onChange?.(update);
+    },
+  };
+  for (let passes = 1; passes <= maxIterations; passes++) {
+    change = undefined;
+    root = visit(root as T, visitor, passOptions);
+    if (change === undefined) return { root, passes };
+  }
+  throw fixpointError(maxIterations, change!);
+};
+
+/**
+ * Async counterpart of `rewriteToFixpoint`, applying the rules with `visitAsync`.
+ *
+ * @template T - The type of the root data structure
+ * @param node - The root data structure to rewrite
+ * @param rules - An async visitor, or async visitors to combine with `composeAsyncVisitors`
+ * @param options - Traversal options, same as for `visitAsync` except `dryRun`, and
+ *                  `maxIterations`
+ * @returns A Promise resolving to the final root and the number of passes made
+ */
+export const rewriteToFixpointAsync = async <T>(
+  node: T,
+  rules: AsyncVisitor<T> | readonly AsyncVisitor<T>[],
+  options?: RewriteOptions,
+): Promise<RewriteResult> => {
+  const visitor = Array.isArray(rules)
+    ? composeAsyncVisitors(...rules as readonly AsyncVisitor<T>[])
+    : rules as AsyncVisitor<T>;
+  const maxIterations = options?.maxIterations ?? 100;
+  let root: unknown = node;
+  let change: VisitChange | undefined;
+  const passOptions: VisitOptions = {
+    ...options,
+    onChange: (update) => {
+      change = update;
+      options?.onChange?.(update);
+    },
+  };
+  for (let passes = 1; passes <= maxIterations; passes++) {
+    change = undefined;
+    root = await visitAsync(root as T, visitor, passOptions);
+    if (change === undefined) return { root, passes };
+  }
+  throw fixpointError(maxIterations, change!);
 };
@@ -1,17 +1,65 @@
 // deno-lint-ignore-file no-explicit-any no-unused-vars require-await
-import { assertEquals, assertThrows } from "@std/assert";
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertNotStrictEquals,
+  assertRejects,
+  assertStrictEquals,
+  assertThrows,
+} from "@std/assert";
 import { describe, it } from "@std/testing/bdd";
 import {
+  applyPatch,
   BREAK,
+  composeAsyncVisitors,
+  composeVisitors,
   CONTINUE,
+  count,
+  countAsync,
+  defaultAdapter,
   DELETE,
   DELETE_BREAK,
   DELETE_EXIT,
+  diff,
+  estreeAdapter,
+  every,
+  everyAsync,
   EXIT,
+  find,
+  findAll,
+  findAllAsync,
+  findAsync,
+  fold,
+  foldAsync,
+  INSERT_AFTER,
+  INSERT_BEFORE,
+  jsonAdapter,
+  type JsonPatchOperation,
+  MOVE,
+  type ParentInfo,
+  RENAME,
   REPLACE,
+  REPLACE_AND_REVISIT,
+  REPLACE_WITH_MANY,
+  rewriteToFixpoint,
+  rewriteToFixpointAsync,
+  some,
+  someAsync,
   STEP_OVER,
+  transform,
+  transformAsync,
+  unistAdapter,
   visit,
   visitAsync,
+  visitByType,
+  visitByTypeAsync,
+  type VisitChange,
+  type VisitOptions,
+  type Visitor,
+  visitWhere,
+  visitWhereAsync,
+  walk,
+  walkAsync,
 } from "./mod.ts";
 
 describe("visit", () => {
@@ -284,36 +332,58 @@ describe("visit", () => {
     assertEquals(visited[0], data);
   });
 
-  it("Root REPLACE error", () => {
-    const data = { prop: "value" };
-    assertThrows(
-      () => {
-        visit(data, (value) => {
-          if (value === data) {
-            return REPLACE({ new: "root" }, CONTINUE);
-          }
-          return CONTINUE;
-        });
-      },
-      Error,
-      "Root node cannot be replaced",
+  it("Root REPLACE returns the replacement", () => {
+    const data = { wrapper: { value: 1 } };
+    const visited: unknown[] = [];
+    const result = visit(data, (value, parents) => {
+      visited.push(value);
+      if (parents.length === 0) return REPLACE(data.wrapper, CONTINUE);
+      return CONTINUE;
+    });
+    assertStrictEquals(result, data.wrapper);
+    assertEquals(visited, [data, data.wrapper, 1]);
+  });
+
+  it("Root REPLACE honors its then control", () => {
+    const data = { a: 1 };
+    const visited: unknown[] = [];
+    const result = visit(data, (value, parents) => {
+      visited.push(value);
+      if (parents.length === 0) return REPLACE("new", STEP_OVER);
+      return CONTINUE;
+    });
+    assertEquals(result, "new");
+    assertEquals(visited, [data]);
+    assertEquals(
+      visit({ a: { b: 1 } }, (value: any) => {
+        if (typeof value === "object" && "a" in value) {
+          return REPLACE({ c: value.a }, CONTINUE);
+        }
+        if (typeof value === "number") return REPLACE(2, CONTINUE);
+        return CONTINUE;
+      }, { descendIntoReplacement: true }),
+      { c: { b: 2 } },
     );
   });
 
-  it("Root DELETE error", () => {
+  it("Root DELETE returns undefined", () => {
     const data = { prop: "value" };
-    assertThrows(
-      () => {
-        visit(data, (value) => {
-          if (value === data) {
-            return DELETE;
-          }
-          return CONTINUE;
-        });
-      },
-      Error,
-      "Root node cannot be deleted",
-    );
+    const visited: unknown[] = [];
+    const result = visit(data, (value) => {
+      visited.push(value);
+      if (value === data) {
+        return DELETE;
+      }
+      return CONTINUE;
+    });
+    assertEquals(result, undefined);
+    assertEquals(visited, [data]);
+    assertEquals(data, { prop: "value" });
+  });
+
+  it("Returns the root when it is not updated", () => {
+    const data = { prop: "value" };
+    assertStrictEquals(visit(data, () => CONTINUE), data);
   });
 
   it("Unknown control type error", () => {
@@ -526,307 +596,2971 @@ describe("visit", () => {
     });
     assertEquals("a" in data, false);
   });
-});
 
-describe("visitAsync", () => {
-  it("Basic async operation", async () => {
-    const data = { url: "test", value: 42 };
-    await visitAsync(data, async (value) => {
-      if (typeof value === "number") {
-        return REPLACE(value * 2, CONTINUE);
-      }
-      return CONTINUE;
+  it("enter/leave order", () => {
+    const events: string[] = [];
+    const data = { a: [1], b: 2 };
+    visit(data, {
+      enter: (value, parents) => {
+        events.push(`enter ${parents.map((p) => p.key).join(".")}`);
+      },
+      leave: (value, parents) => {
+        events.push(`leave ${parents.map((p) => p.key).join(".")}`);
+      },
     });
-    assertEquals(data.value, 84);
+    assertEquals(events, [
+      "enter ",
+      "enter a",
+      "enter a.0",
+      "leave a.0",
+      "leave a",
+      "enter b",
+      "leave b",
+      "leave ",
+    ]);
   });
 
-  it("Async REPLACE", async () => {
-    const data = { items: [1, 2, 3] };
-    await visitAsync(data, async (value) => {
-      if (typeof value === "number" && value === 2) {
-        // Simulate async operation
-        await new Promise((resolve) => setTimeout(resolve, 1));
-        return REPLACE(99, CONTINUE);
-      }
-      return CONTINUE;
+  it("leave computes subtree sizes", () => {
+    const sizes = new Map<unknown, number>();
+    const data = { a: { b: [1, 2], c: 3 }, d: 4 };
+    visit(data, {
+      leave: (value) => {
+        let size = 1;
+        if (typeof value === "object" && value !== null) {
+          for (const child of Object.values(value)) {
+            size += sizes.get(child) ?? 1;
+          }
+        }
+        sizes.set(value, size);
+      },
     });
-    assertEquals(data.items, [1, 99, 3]);
+    assertEquals(sizes.get(data), 7);
+    assertEquals(sizes.get(data.a), 5);
   });
 
-  it("Async DELETE", async () => {
-    const data = { keep: "this", remove: "that" };
-    await visitAsync(data, async (value) => {
-      if (typeof value === "string" && value === "that") {
-        await new Promise((resolve) => setTimeout(resolve, 1));
-        return DELETE;
-      }
-      return CONTINUE;
+  it("leave is called after STEP_OVER but not after BREAK", () => {
+    const left: unknown[] = [];
+    const data = { a: { nested: 1 }, b: 2, c: 3 };
+    visit(data, {
+      enter: (value) => {
+        if (value === data.a) return STEP_OVER;
+        if (typeof value === "number" && value === 2) return BREAK;
+      },
+      leave: (value) => {
+        left.push(value);
+      },
     });
-    assertEquals("remove" in data, false);
-    assertEquals(data.keep, "this");
+    assertEquals(left, [{ nested: 1 }, data]);
   });
 
-  it("Async ROOT STEP_OVER", async () => {
-    const visited: unknown[] = [];
-    const data = { child: "value" };
-    await visitAsync(data, async (value) => {
-      visited.push(value);
-      if (value === data) {
-        return STEP_OVER;
-      }
-      return CONTINUE;
+  it("leave REPLACE and DELETE", () => {
+    const data = { items: [{ count: 1 }, { count: 0 }, { count: 2 }] };
+    visit(data, {
+      leave: (value) => {
+        if (typeof value === "object" && value !== null && "count" in value) {
+          return value.count === 0 ? DELETE : REPLACE(value.count, CONTINUE);
+        }
+      },
     });
-    assertEquals(visited.length, 1);
+    assertEquals(data, { items: [1, 2] as any });
   });
 
-  it("Async ROOT BREAK", async () => {
-    const visited: unknown[] = [];
+  it("leave BREAK and EXIT", () => {
+    const entered: unknown[] = [];
+    const data = { a: [1, 2, 3], b: [4, 5] };
+    visit(data, {
+      enter: (value) => {
+        entered.push(value);
+      },
+      leave: (value) => {
+        if (value === 1) return BREAK;
+        if (value === 4) return EXIT;
+      },
+    });
+    assertEquals(entered, [data, data.a, 1, data.b, 4]);
+  });
+
+  it("leave on root can REPLACE", () => {
     const data = { prop: "value" };
-    await visitAsync(data, async (value) => {
-      visited.push(value);
-      if (value === data) {
-        return BREAK;
-      }
-      return CONTINUE;
+    const result = visit(data, {
+      leave: (value) => {
+        if (value === data) return REPLACE({ wrapped: value }, CONTINUE);
+      },
     });
-    assertEquals(visited.length, 1);
+    assertEquals(result, { wrapped: { prop: "value" } });
   });
 
-  it("Async ROOT EXIT", async () => {
+  it("Parents are restored after STEP_OVER and DELETE", () => {
+    const depths: number[] = [];
+    const data = { a: { x: 1 }, b: "delete", c: { y: 2 } } as Record<
+      string,
+      unknown
+    >;
+    visit(data, (value, parents) => {
+      depths.push(parents.length);
+      if (value === data.a) return STEP_OVER;
+      if (typeof value === "string" && value === "delete") return DELETE;
+    });
+    assertEquals(depths, [0, 1, 1, 1, 2]);
+  });
+
+  it("cycles: skip", () => {
+    const data: any = { name: "root", child: { name: "child" } };
+    data.child.parent = data;
     const visited: unknown[] = [];
-    const data = { prop: "value" };
-    await visitAsync(data, async (value) => {
+    visit(data, (value) => {
       visited.push(value);
-      if (value === data) {
-        return EXIT;
-      }
-      return CONTINUE;
-    });
-    assertEquals(visited.length, 1);
+    }, { cycles: "skip" });
+    assertEquals(visited, [data, "root", data.child, "child"]);
   });
 
-  it("Async ROOT REPLACE error", async () => {
-    const data = { prop: "value" };
-    let thrown = false;
-    try {
-      await visitAsync(data, async (value) => {
-        if (value === data) {
-          return REPLACE({ new: "root" }, CONTINUE);
-        }
-        return CONTINUE;
-      });
-    } catch (error) {
-      thrown = true;
-      assertEquals((error as Error).message, "Root node cannot be replaced");
-    }
-    assertEquals(thrown, true);
+  it("cycles: skip shared references", () => {
+    const shared = { value: 1 };
+    const data = { a: shared, b: shared };
+    const visited: unknown[] = [];
+    visit(data, (value) => {
+      visited.push(value);
+    }, { cycles: "skip" });
+    assertEquals(visited, [data, shared, 1]);
   });
 
-  it("Async ROOT DELETE error", async () => {
-    const data = { prop: "value" };
-    let thrown = false;
-    try {
-      await visitAsync(data, async (value) => {
-        if (value === data) {
-          return DELETE;
-        }
-        return CONTINUE;
-      });
-    } catch (error) {
-      thrown = true;
-      assertEquals((error as Error).message, "Root node cannot be deleted");
-    }
-    assertEquals(thrown, true);
+  it("cycles: throw", () => {
+    const data: any = { items: [{ name: "child" }] };
+    data.items[0].self = data.items[0];
+    assertThrows(
+      () => visit(data, () => {}, { cycles: "throw" }),
+      Error,
+      "Already visited value found at $.items[0].self (first visited at $.items[0])",
+    );
   });
 
-  it("Async unknown control type error", async () => {
-    const data = { prop: "value" };
-    let thrown = false;
-    try {
-      await visitAsync(data, async (value) => {
-        if (value === data) {
-          return { type: "invalid" } as any;
+  it("cycles: handler", () => {
+    const data: any = { a: { b: {} } };
+    data.a.b.back = data.a;
+    const calls: unknown[] = [];
+    visit(data, () => {}, {
+      cycles: (value, parents, firstParents) => {
+        calls.push([
+          value,
+          parents.map((p) => p.key),
+          firstParents.map((p) => p.key),
+        ]);
+        return REPLACE("[Circular]", CONTINUE);
+      },
+    });
+    assertEquals(calls, [[data.a, ["a", "b", "back"], ["a"]]]);
+    assertEquals(data, { a: { b: { back: "[Circular]" } } });
+  });
+
+  it("Million-level deep object", () => {
+    const depth = 1_000_000;
+    const data: any = {};
+    let current = data;
+    for (let i = 0; i < depth; i++) {
+      current = current.next = {};
+    }
+    current.value = "bottom";
+    let visited = 0;
+    let bottomDepth = -1;
+    visit(data, {
+      enter: (value, parents) => {
+        visited++;
+        if (typeof value === "string" && value === "bottom") {
+          bottomDepth = parents.length;
+          return REPLACE("replaced", CONTINUE);
         }
-        return CONTINUE;
-      });
-    } catch (error) {
-      thrown = true;
-      assertEquals(
-        (error as Error).message.includes("Unknown control type"),
-        true,
-      );
+      },
+    });
+    assertEquals(visited, depth + 2);
+    assertEquals(bottomDepth, depth + 1);
+    assertEquals(current.value, "replaced");
+  });
+
+  it("Million-level deep array with leave", () => {
+    const depth = 1_000_000;
+    const data: unknown[] = [];
+    let current = data;
+    for (let i = 0; i < depth; i++) {
+      const next: unknown[] = [];
+      current.push(next, "delete");
+      current = next;
     }
-    assertEquals(thrown, true);
+    let left = 0;
+    visit(data, {
+      enter: (value) => (value === "delete" ? DELETE : CONTINUE),
+      leave: () => {
+        left++;
+      },
+    });
+    assertEquals(left, depth + 1);
+    assertEquals(current, []);
+    assertEquals((data as unknown[]).length, 1);
   });
 
-  it("Async BREAK in array", async () => {
+  it("REPLACE descends into the original value by default", () => {
     const visited: unknown[] = [];
-    const data = [1, 2, 3, 4];
-    await visitAsync(data, async (value) => {
+    const data = { a: { old: 1 } };
+    visit(data, (value) => {
       visited.push(value);
-      if (value === 2) {
-        return BREAK;
-      }
-      return CONTINUE;
+      if (value === data.a) return REPLACE({ new: 2 }, CONTINUE);
     });
-    const hasValue3 = visited.some((v) => v === 3);
-    assertEquals(hasValue3, false);
+    assertEquals(visited, [data, { old: 1 }, 1]);
+    assertEquals(data, { a: { new: 2 } as any });
   });
 
-  it("Async EXIT in array", async () => {
+  it("descendIntoReplacement", () => {
     const visited: unknown[] = [];
-    const data = { first: [1, 2], second: [3, 4] };
-    await visitAsync(data, async (value) => {
+    const data = { a: { old: 1 } };
+    visit(data, (value) => {
       visited.push(value);
-      if (value === 2) {
-        return EXIT;
+      if (value === data.a) return REPLACE({ new: 2 }, CONTINUE);
+    }, { descendIntoReplacement: true });
+    assertEquals(visited, [data, { old: 1 }, 2]);
+  });
+
+  it("descendIntoReplacement does not expand wrapped originals", () => {
+    const data = { items: ["a", "b"] };
+    const visited: unknown[] = [];
+    visit(data, (value) => {
+      visited.push(value);
+      if (typeof value === "string") {
+        return REPLACE({ wrapped: value }, CONTINUE);
       }
-      return CONTINUE;
-    });
-    const hasValue3 = visited.some((v) => v === 3);
-    assertEquals(hasValue3, false);
+    }, { descendIntoReplacement: true });
+    assertEquals(data, { items: [{ wrapped: "a" }, { wrapped: "b" }] as any });
+    assertEquals(visited, [data, data.items, "a", "b"]);
   });
 
-  it("Async DELETE_BREAK", async () => {
-    const data = { items: [1, 2, 3] };
-    await visitAsync(data, async (value) => {
-      if (value === 2) {
-        return DELETE_BREAK;
+  it("descendIntoReplacement and REPLACE_AND_REVISIT with cycles", () => {
+    for (const cycles of ["throw", "skip"] as const) {
+      for (const revisit of [false, true]) {
+        const original = { b: 1 };
+        const data: any = { a: original };
+        const visited: unknown[] = [];
+        visit<unknown>(data, (value) => {
+          visited.push(value);
+          if (value !== original || data.a !== original) return CONTINUE;
+          return revisit
+            ? REPLACE_AND_REVISIT({ wrapped: value })
+            : REPLACE({ wrapped: value }, CONTINUE);
+        }, { cycles, descendIntoReplacement: !revisit });
+        assertEquals(data, { a: { wrapped: { b: 1 } } });
+        assertEquals(visited.at(-1), 1);
+      }
+    }
+  });
+
+  it("REPLACE_AND_REVISIT", () => {
+    const visited: unknown[] = [];
+    const data = { value: 3 };
+    visit(data, (value) => {
+      visited.push(value);
+      if (typeof value === "number" && value > 0) {
+        return REPLACE_AND_REVISIT(value - 1);
       }
-      return CONTINUE;
     });
-    assertEquals(data.items, [1, 3]);
+    assertEquals(data, { value: 0 });
+    assertEquals(visited, [data, 3, 2, 1, 0]);
   });
 
-  it("Async DELETE_EXIT", async () => {
-    const data = { first: [1, 2], second: [3, 4] };
-    await visitAsync(data, async (value) => {
-      if (value === 2) {
-        return DELETE_EXIT;
+  it("REPLACE_AND_REVISIT visits the children of the new value", () => {
+    const data: unknown = { items: [{ macro: "pair" }] };
+    visit(data, (value: any) => {
+      if (value?.macro === "pair") {
+        return REPLACE_AND_REVISIT({
+          group: [{ macro: "one" }, { macro: "one" }],
+        });
       }
-      return CONTINUE;
+      if (value?.macro === "one") return REPLACE("expanded", CONTINUE);
     });
-    assertEquals(data.first, [1]);
+    assertEquals(data, { items: [{ group: ["expanded", "expanded"] }] });
   });
 
-  it("Async STEP_OVER on object", async () => {
+  it("REPLACE_AND_REVISIT with the same value continues", () => {
     const visited: unknown[] = [];
-    const data = { config: { nested: "value" } };
-    await visitAsync(data, async (value) => {
+    const data = { a: [1] };
+    visit(data, (value) => {
       visited.push(value);
-      if (typeof value === "object" && value !== null && "nested" in value) {
-        return STEP_OVER;
-      }
-      return CONTINUE;
+      if (value === data.a) return REPLACE_AND_REVISIT(value);
     });
-    const hasNestedValue = visited.some((v) => v === "value");
-    assertEquals(hasNestedValue, false);
+    assertEquals(visited, [data, data.a, 1]);
   });
 
-  it("Async void return", async () => {
-    const data = { prop: "value" };
-    await visitAsync(data, async (value) => {
-      return;
+  it("REPLACE_AND_REVISIT from leave", () => {
+    const events: unknown[] = [];
+    const data = { a: 1 };
+    visit(data, {
+      enter: (value) => {
+        events.push(["enter", value]);
+      },
+      leave: (value) => {
+        events.push(["leave", value]);
+        if (typeof value === "number" && value === 1) {
+          return REPLACE_AND_REVISIT(2);
+        }
+      },
     });
-    assertEquals(data, { prop: "value" });
+    assertEquals(events, [
+      ["enter", data],
+      ["enter", 1],
+      ["leave", 1],
+      ["enter", 2],
+      ["leave", 2],
+      ["leave", data],
+    ]);
   });
 
-  it("Async unknown DELETE control error", async () => {
-    const data = { items: ["delete"] };
-    let thrown = false;
-    try {
-      await visitAsync(data, async (value) => {
-        if (typeof value === "string" && value === "delete") {
-          return { type: "delete", then: { type: "invalid" } } as any;
-        }
-        return CONTINUE;
-      });
-    } catch (error) {
-      thrown = true;
-      assertEquals(
-        (error as Error).message.includes("Unknown control type"),
-        true,
-      );
-    }
-    assertEquals(thrown, true);
+  it("maxRevisits", () => {
+    const data = { value: 10 };
+    assertThrows(
+      () =>
+        visit(data, (value) => {
+          if (typeof value === "number" && value > 0) {
+            return REPLACE_AND_REVISIT(value - 1);
+          }
+        }, { maxRevisits: 5 }),
+      Error,
+      "Value at $.value was revisited more than 5 times",
+    );
   });
 
-  // Additional async coverage tests
-  it("Async BREAK from object", async () => {
+  it("Map entries", () => {
+    const data = {
+      users: new Map<string, { age: number }>([
+        ["alice", { age: 30 }],
+        ["bob", { age: 25 }],
+        ["carol", { age: 40 }],
+      ]),
+    };
+    const keys: unknown[] = [];
+    visit(data, (value, parents) => {
+      if (parents.at(-1)?.node === data.users) {
+        keys.push(parents.at(-1)?.key);
+        if (parents.at(-1)?.key === "bob") return DELETE;
+        if ("age" in value) return REPLACE({ age: value.age + 1 }, CONTINUE);
+      }
+    });
+    assertEquals(keys, ["alice", "bob", "carol"]);
+    assertEquals(
+      data.users,
+      new Map([["alice", { age: 31 }], ["carol", { age: 41 }]]),
+    );
+  });
+
+  it("Map with object keys", () => {
+    const key = { id: 1 };
+    const data = new Map<object, string>([[key, "value"]]);
     const visited: unknown[] = [];
-    const data = { a: 1, b: 2, c: 3 };
-    await visitAsync(data, async (value) => {
+    visit(data, (value, parents) => {
+      visited.push([value, parents.at(-1)?.key]);
+    });
+    assertEquals(visited, [[data, undefined], ["value", key]]);
+  });
+
+  it("Set members", () => {
+    const data = { tags: new Set(["a", "b", "c", "d"]) };
+    visit(data, (value) => {
+      if (typeof value === "string" && value === "b") return DELETE;
+      if (typeof value === "string" && value === "c") {
+        return REPLACE("C", CONTINUE);
+      }
+    });
+    assertEquals([...data.tags], ["a", "C", "d"]);
+  });
+
+  it("Set member replaced then visited by leave", () => {
+    const data = new Set([1, 2]);
+    visit(data, {
+      enter: (value) => (value === 1 ? REPLACE(10, CONTINUE) : CONTINUE),
+      leave: (value) => (value === 10 ? REPLACE(100, CONTINUE) : CONTINUE),
+    });
+    assertEquals([...data], [100, 2]);
+  });
+
+  it("Set member NaN replaced", () => {
+    const data = new Set([1, NaN]);
+    visit<unknown>(
+      data,
+      (value) => Number.isNaN(value) ? REPLACE(0, CONTINUE) : CONTINUE,
+    );
+    assertEquals([...data], [1, 0]);
+  });
+
+  it("Typed arrays", () => {
+    const data = { bytes: new Uint8Array([1, 2, 3]) };
+    const visited: unknown[] = [];
+    visit(data, (value, parents) => {
       visited.push(value);
       if (typeof value === "number" && value === 2) {
-        return BREAK;
+        return REPLACE(20, CONTINUE);
       }
-      return CONTINUE;
     });
-    const hasValue3 = visited.some((v) => v === 3);
-    assertEquals(hasValue3, false);
+    assertEquals(visited, [data, data.bytes, 1, 2, 3]);
+    assertEquals([...data.bytes], [1, 20, 3]);
+    assertThrows(
+      () => visit(data, (value) => (value === 1 ? DELETE : CONTINUE)),
+      Error,
+      "Typed array elements cannot be deleted",
+    );
   });
 
-  it("Async EXIT from object", async () => {
+  it("Map and Set types are inferred", () => {
+    const data = {
+      map: new Map<string, { count: number }>([["a", { count: 1 }]]),
+      set: new Set([{ label: "x" }]),
+    };
+    const found: unknown[] = [];
+    visit(data, (value) => {
+      if (
+        typeof value !== "object" || value instanceof Map ||
+        value instanceof Set
+      ) return;
+      if ("count" in value) {
+        const count: number = value.count;
+        found.push(count);
+      } else if ("label" in value) {
+        const label: string = value.label;
+        found.push(label);
+      }
+    });
+    assertEquals(found, [1, "x"]);
+  });
+
+  it("Custom adapter", () => {
+    const data = {
+      name: "root",
+      kids: [{ name: "a", kids: [] }, { name: "b", kids: [] }],
+    };
     const visited: unknown[] = [];
-    const data = { first: { nested: 1 }, second: { nested: 2 } };
-    await visitAsync(data, async (value) => {
+    visit(data, (value: any, parents) => {
+      visited.push([value.name, parents.map((p) => p.key)]);
+      if (value.name === "a") return DELETE;
+    }, {
+      adapter: {
+        getChildren: (node: any) => node.kids,
+        setChild: (node: any, key, value) => {
+          node.kids[key as number] = value;
+        },
+        deleteChild: (node: any, key) => {
+          node.kids.splice(key as number, 1);
+        },
+      },
+    });
+    assertEquals(visited, [["root", []], ["a", [0]], ["b", [0]]]);
+    assertEquals(data.kids, [{ name: "b", kids: [] }]);
+  });
+
+  it("jsonAdapter does not enter Map", () => {
+    const data = { map: new Map([["a", 1]]) };
+    const visited: unknown[] = [];
+    visit(data, (value) => {
       visited.push(value);
-      if (typeof value === "number" && value === 1) {
-        return EXIT;
+    }, { adapter: jsonAdapter });
+    assertEquals(visited, [data, data.map]);
+  });
+
+  it("unistAdapter", () => {
+    const tree = {
+      type: "root",
+      position: { start: { line: 1 } },
+      children: [
+        { type: "heading", depth: 1, children: [{ type: "text", value: "A" }] },
+        { type: "paragraph", data: { id: 1 }, children: [] },
+      ],
+    };
+    const types: unknown[] = [];
+    visit(tree, (value: any, parents) => {
+      if (!Array.isArray(value)) {
+        types.push(`${parents.map((p) => p.key).join("/")}:${value.type}`);
+      }
+      if (value.type === "paragraph") return DELETE;
+    }, { adapter: unistAdapter });
+    assertEquals(types, [
+      ":root",
+      "children/0:heading",
+      "children/0/children/0:text",
+      "children/1:paragraph",
+    ]);
+    assertEquals(tree.children.length, 1);
+  });
+
+  it("estreeAdapter", () => {
+    const ast = {
+      type: "Program",
+      range: [0, 7],
+      loc: { start: { line: 1, column: 0 } },
+      body: [{
+        type: "ExpressionStatement",
+        expression: {
+          type: "CallExpression",
+          callee: { type: "Identifier", name: "f" },
+          arguments: [{ type: "Literal", value: 1, raw: "1" }],
+          optional: false,
+        },
+      }],
+    };
+    const types: unknown[] = [];
+    visit(ast, (value: any) => {
+      types.push(Array.isArray(value) ? "[]" : value.type);
+      if (value.type === "Literal") {
+        return REPLACE({ type: "Literal", value: 2, raw: "2" }, CONTINUE);
+      }
+    }, { adapter: estreeAdapter });
+    assertEquals(types, [
+      "Program",
+      "[]",
+      "ExpressionStatement",
+      "CallExpression",
+      "Identifier",
+      "[]",
+      "Literal",
+    ]);
+    assertEquals(ast.body[0].expression.arguments[0].value, 2);
+  });
+
+  it("signal stops the traversal", () => {
+    const controller = new AbortController();
+    const visited: unknown[] = [];
+    const data = [1, 2, 3];
+    assertThrows(
+      () => {
+        visit(data, (value, parents, context) => {
+          visited.push(value);
+          assertStrictEquals(context.signal, controller.signal);
+          if (value === 2) controller.abort(new Error("stop"));
+        }, { signal: controller.signal });
+      },
+      Error,
+      "stop",
+    );
+    assertEquals(visited, [data, 1, 2]);
+  });
+
+  it("context path, jsonPointer, depth, key, parent and isRoot", () => {
+    const data = { users: [{ name: "a" }], "a/b~c": 1 };
+    const contexts: unknown[] = [];
+    visit(data, (value, parents, context) => {
+      contexts.push({
+        path: context.path,
+        jsonPointer: context.jsonPointer,
+        depth: context.depth,
+        key: context.key,
+        parent: context.parent,
+        isRoot: context.isRoot,
+      });
+    });
+    assertEquals(contexts, [
+      {
+        path: [],
+        jsonPointer: "",
+        depth: 0,
+        key: undefined,
+        parent: undefined,
+        isRoot: true,
+      },
+      {
+        path: ["users"],
+        jsonPointer: "/users",
+        depth: 1,
+        key: "users",
+        parent: data,
+        isRoot: false,
+      },
+      {
+        path: ["users", 0],
+        jsonPointer: "/users/0",
+        depth: 2,
+        key: 0,
+        parent: data.users,
+        isRoot: false,
+      },
+      {
+        path: ["users", 0, "name"],
+        jsonPointer: "/users/0/name",
+        depth: 3,
+        key: "name",
+        parent: data.users[0],
+        isRoot: false,
+      },
+      {
+        path: ["a/b~c"],
+        jsonPointer: "/a~1b~0c",
+        depth: 1,
+        key: "a/b~c",
+        parent: data,
+        isRoot: false,
+      },
+    ]);
+  });
+
+  it("context reflects the value being left", () => {
+    const pointers: string[] = [];
+    visit({ a: { b: 1 } }, {
+      leave: (value, parents, context) => {
+        pointers.push(context.jsonPointer);
+      },
+    });
+    assertEquals(pointers, ["/a/b", "/a", ""]);
+  });
+
+  it("selector visitor only calls matching functions", () => {
+    const data = {
+      users: [
+        { name: "a", email: "a@example.com" },
+        { name: "b", email: "b@example.com" },
+      ],
+      email: "root@example.com",
+    };
+    const pointers: string[] = [];
+    visit(data, {
+      "$.users[*].email": (value, parents, context) => {
+        pointers.push(context.jsonPointer);
+        return REPLACE(`<${value}>`, CONTINUE);
+      },
+    });
+    assertEquals(pointers, ["/users/0/email", "/users/1/email"]);
+    assertEquals(data.users.map((user) => user.email), [
+      "<a@example.com>",
+      "<b@example.com>",
+    ]);
+    assertEquals(data.email, "root@example.com");
+  });
+
+  it("selector descendant, index, quoted and root steps", () => {
+    const data = {
+      a: { settings: { theme: "dark" } },
+      b: [{ settings: { theme: "light" } }],
+      "x y": [1, 2],
+    };
+    const matched: Record<string, unknown[]> = {};
+    const record = (selector: string) => (value: unknown) => {
+      (matched[selector] ??= []).push(value);
+    };
+    visit(data, {
+      "$": record("$"),
+      "$..settings.theme": record("$..settings.theme"),
+      "$.b[0].*": record("$.b[0].*"),
+      "$['x y'][1]": record("$['x y'][1]"),
+      '$..["theme"]': record('$..["theme"]'),
+      "$..[*][0]": record("$..[*][0]"),
+    });
+    assertEquals(matched, {
+      "$": [data],
+      "$..settings.theme": ["dark", "light"],
+      "$.b[0].*": [data.b[0].settings],
+      "$['x y'][1]": [2],
+      '$..["theme"]': ["dark", "light"],
+      "$..[*][0]": [data.b[0], 1],
+    });
+  });
+
+  it("selector visitor skips subtrees that cannot match", () => {
+    let reads = 0;
+    const data = {
+      config: { theme: "dark" },
+      large: {
+        get nested() {
+          reads++;
+          return { theme: "light" };
+        },
+      },
+    };
+    const themes: unknown[] = [];
+    visit(data, {
+      "$.config.theme": (value) => {
+        themes.push(value);
+      },
+    });
+    assertEquals(themes, ["dark"]);
+    assertEquals(reads, 0);
+  });
+
+  it("selector visitor applies the first control other than CONTINUE", () => {
+    const data = { list: [1, 2, 3] };
+    const calls: string[] = [];
+    visit(data, {
+      "$.list[*]": (value) => {
+        calls.push(`first ${value}`);
+        if (value === 2) return DELETE;
+      },
+      "$.list[1]": (value) => {
+        calls.push(`second ${value}`);
+        return REPLACE(20, CONTINUE);
+      },
+    });
+    // 3 is matched by "$.list[1]" once 2 is deleted
+    assertEquals(calls, ["first 1", "first 2", "first 3", "second 3"]);
+    assertEquals(data, { list: [1, 20] });
+  });
+
+  it("selector visitor matches shared values by path in bfs order", () => {
+    const shared = { k: 1 };
+    const calls: unknown[] = [];
+    visit({ a: shared, c: shared }, {
+      "$.a.k": (value, parents) => void calls.push(parents[0].key),
+    }, { order: "bfs" });
+    assertEquals(calls, ["a"]);
+  });
+
+  it("selector visitor rejects invalid selectors", () => {
+    assertThrows(
+      () => visit({}, { "$.a[": () => CONTINUE }),
+      Error,
+      "Invalid selector: $.a[",
+    );
+  });
+
+  it("bfs order visits level by level", () => {
+    const data = { a: { c: [1] }, b: { d: 2 } };
+    const visited: unknown[] = [];
+    const depths: number[] = [];
+    visit(data, (value, parents) => {
+      visited.push(value);
+      depths.push(parents.length);
+    }, { order: "bfs" });
+    assertEquals(visited, [data, data.a, data.b, data.a.c, 2, 1]);
+    assertEquals(depths, [0, 1, 1, 2, 2, 3]);
+  });
+
+  it("bfs order passes the parents of each value", () => {
+    const data = { a: [{ x: 1 }], b: { y: 2 } };
+    const paths: string[] = [];
+    visit(data, (value, parents, context) => {
+      assertEquals(context.parent, parents.at(-1)?.node);
+      paths.push(context.jsonPointer);
+    }, { order: "bfs" });
+    assertEquals(paths, ["", "/a", "/b", "/a/0", "/b/y", "/a/0/x"]);
+  });
+
+  it("bfs order STEP_OVER, BREAK and EXIT", () => {
+    const data = {
+      skip: { hidden: 1 },
+      list: [1, 2, 3],
+      other: { deep: { stop: true, after: 1 } },
+      last: { never: 1 },
+    };
+    const visited: unknown[] = [];
+    visit(data, (value, parents) => {
+      visited.push(value);
+      if (value === data.skip) return STEP_OVER;
+      if (typeof value === "number" && value === 2) return BREAK;
+      if (typeof value === "boolean") return EXIT;
+    }, { order: "bfs" });
+    assertEquals(visited, [
+      data,
+      data.skip,
+      data.list,
+      data.other,
+      data.last,
+      1,
+      2,
+      data.other.deep,
+      1,
+      true,
+    ]);
+  });
+
+  it("bfs order REPLACE and DELETE update the right container", () => {
+    const data = { a: [1, 2, 3, 4], b: { c: 2, d: [2] } };
+    const result = visit(data, (value) => {
+      if (typeof value === "number" && value === 2) return DELETE;
+      if (typeof value === "number" && value === 3) {
+        return REPLACE(30, CONTINUE);
+      }
+    }, { order: "bfs" });
+    assertStrictEquals(result, data);
+    assertEquals(data, { a: [1, 30, 4], b: { d: [] } });
+  });
+
+  it("bfs order with transform", () => {
+    const data = Object.freeze({
+      a: Object.freeze({ b: Object.freeze([1, 2]) }),
+      c: Object.freeze({ d: 1 }),
+    });
+    const result: any = transform(data, (value) => {
+      if (typeof value === "number" && value === 2) {
+        return REPLACE(20, CONTINUE);
+      }
+    }, { order: "bfs" });
+    assertEquals(result, { a: { b: [1, 20] }, c: { d: 1 } });
+    assertStrictEquals(result.c, data.c);
+    assertEquals(data.a.b, [1, 2]);
+  });
+
+  it("bfs order rejects leave visitors", () => {
+    assertThrows(
+      () => visit({}, { leave: () => CONTINUE }, { order: "bfs" }),
+      Error,
+      "Leave visitors are not supported in breadth-first order",
+    );
+  });
+});
+
+describe("visitAsync", () => {
+  it("Basic async operation", async () => {
+    const data = { url: "test", value: 42 };
+    await visitAsync(data, async (value) => {
+      if (typeof value === "number") {
+        return REPLACE(value * 2, CONTINUE);
       }
       return CONTINUE;
     });
-    const hasValue2 = visited.some((v) => v === 2);
-    assertEquals(hasValue2, false);
+    assertEquals(data.value, 84);
   });
 
-  it("Async DELETE_BREAK from object", async () => {
-    const data = { a: "delete", b: 2 };
+  it("Async REPLACE", async () => {
+    const data = { items: [1, 2, 3] };
     await visitAsync(data, async (value) => {
-      if (typeof value === "string" && value === "delete") {
-        return { type: "delete", then: BREAK } as any;
+      if (typeof value === "number" && value === 2) {
+        // Simulate async operation
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return REPLACE(99, CONTINUE);
       }
       return CONTINUE;
     });
-    assertEquals("a" in data, false);
+    assertEquals(data.items, [1, 99, 3]);
   });
 
-  it("Async DELETE_EXIT from object", async () => {
-    const data = { a: "delete", b: 2 };
+  it("Async DELETE", async () => {
+    const data = { keep: "this", remove: "that" };
     await visitAsync(data, async (value) => {
-      if (typeof value === "string" && value === "delete") {
-        return { type: "delete", then: EXIT } as any;
+      if (typeof value === "string" && value === "that") {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return DELETE;
       }
       return CONTINUE;
     });
-    assertEquals("a" in data, false);
+    assertEquals("remove" in data, false);
+    assertEquals(data.keep, "this");
   });
 
-  it("Async BREAK from array", async () => {
+  it("Async ROOT STEP_OVER", async () => {
     const visited: unknown[] = [];
-    const data = [1, 2, 3];
+    const data = { child: "value" };
     await visitAsync(data, async (value) => {
       visited.push(value);
-      if (value === 2) {
+      if (value === data) {
+        return STEP_OVER;
+      }
+      return CONTINUE;
+    });
+    assertEquals(visited.length, 1);
+  });
+
+  it("Async ROOT BREAK", async () => {
+    const visited: unknown[] = [];
+    const data = { prop: "value" };
+    await visitAsync(data, async (value) => {
+      visited.push(value);
+      if (value === data) {
         return BREAK;
       }
       return CONTINUE;
     });
-    const hasValue3 = visited.some((v) => v === 3);
-    assertEquals(hasValue3, false);
+    assertEquals(visited.length, 1);
   });
 
-  it("Async EXIT from array", async () => {
+  it("Async ROOT EXIT", async () => {
     const visited: unknown[] = [];
-    const data = { first: [1, 2], second: [3] };
+    const data = { prop: "value" };
     await visitAsync(data, async (value) => {
       visited.push(value);
-      if (value === 2) {
+      if (value === data) {
         return EXIT;
       }
       return CONTINUE;
     });
-    const hasValue3 = visited.some((v) => v === 3);
-    assertEquals(hasValue3, false);
+    assertEquals(visited.length, 1);
+  });
+
+  it("Async ROOT REPLACE", async () => {
+    const data = { prop: "value" };
+    const result = await visitAsync(data, async (value) => {
+      if (value === data) {
+        return REPLACE({ new: "root" }, CONTINUE);
+      }
+      return CONTINUE;
+    });
+    assertEquals(result, { new: "root" });
+  });
+
+  it("Async ROOT DELETE", async () => {
+    const data = { prop: "value" };
+    const result = await visitAsync(data, async (value) => {
+      if (value === data) {
+        return DELETE;
+      }
+      return CONTINUE;
+    });
+    assertEquals(result, undefined);
+  });
+
+  it("Async unknown control type error", async () => {
+    const data = { prop: "value" };
+    let thrown = false;
+    try {
+      await visitAsync(data, async (value) => {
+        if (value === data) {
+          return { type: "invalid" } as any;
+        }
+        return CONTINUE;
+      });
+    } catch (error) {
+      thrown = true;
+      assertEquals(
+        (error as Error).message.includes("Unknown control type"),
+        true,
+      );
+    }
+    assertEquals(thrown, true);
+  });
+
+  it("Async BREAK in array", async () => {
+    const visited: unknown[] = [];
+    const data = [1, 2, 3, 4];
+    await visitAsync(data, async (value) => {
+      visited.push(value);
+      if (value === 2) {
+        return BREAK;
+      }
+      return CONTINUE;
+    });
+    const hasValue3 = visited.some((v) => v === 3);
+    assertEquals(hasValue3, false);
+  });
+
+  it("Async EXIT in array", async () => {
+    const visited: unknown[] = [];
+    const data = { first: [1, 2], second: [3, 4] };
+    await visitAsync(data, async (value) => {
+      visited.push(value);
+      if (value === 2) {
+        return EXIT;
+      }
+      return CONTINUE;
+    });
+    const hasValue3 = visited.some((v) => v === 3);
+    assertEquals(hasValue3, false);
+  });
+
+  it("Async DELETE_BREAK", async () => {
+    const data = { items: [1, 2, 3] };
+    await visitAsync(data, async (value) => {
+      if (value === 2) {
+        return DELETE_BREAK;
+      }
+      return CONTINUE;
+    });
+    assertEquals(data.items, [1, 3]);
+  });
+
+  it("Async DELETE_EXIT", async () => {
+    const data = { first: [1, 2], second: [3, 4] };
+    await visitAsync(data, async (value) => {
+      if (value === 2) {
+        return DELETE_EXIT;
+      }
+      return CONTINUE;
+    });
+    assertEquals(data.first, [1]);
+  });
+
+  it("Async STEP_OVER on object", async () => {
+    const visited: unknown[] = [];
+    const data = { config: { nested: "value" } };
+    await visitAsync(data, async (value) => {
+      visited.push(value);
+      if (typeof value === "object" && value !== null && "nested" in value) {
+        return STEP_OVER;
+      }
+      return CONTINUE;
+    });
+    const hasNestedValue = visited.some((v) => v === "value");
+    assertEquals(hasNestedValue, false);
+  });
+
+  it("Async void return", async () => {
+    const data = { prop: "value" };
+    await visitAsync(data, async (value) => {
+      return;
+    });
+    assertEquals(data, { prop: "value" });
+  });
+
+  it("Async unknown DELETE control error", async () => {
+    const data = { items: ["delete"] };
+    let thrown = false;
+    try {
+      await visitAsync(data, async (value) => {
+        if (typeof value === "string" && value === "delete") {
+          return { type: "delete", then: { type: "invalid" } } as any;
+        }
+        return CONTINUE;
+      });
+    } catch (error) {
+      thrown = true;
+      assertEquals(
+        (error as Error).message.includes("Unknown control type"),
+        true,
+      );
+    }
+    assertEquals(thrown, true);
+  });
+
+  // Additional async coverage tests
+  it("Async BREAK from object", async () => {
+    const visited: unknown[] = [];
+    const data = { a: 1, b: 2, c: 3 };
+    await visitAsync(data, async (value) => {
+      visited.push(value);
+      if (typeof value === "number" && value === 2) {
+        return BREAK;
+      }
+      return CONTINUE;
+    });
+    const hasValue3 = visited.some((v) => v === 3);
+    assertEquals(hasValue3, false);
+  });
+
+  it("Async EXIT from object", async () => {
+    const visited: unknown[] = [];
+    const data = { first: { nested: 1 }, second: { nested: 2 } };
+    await visitAsync(data, async (value) => {
+      visited.push(value);
+      if (typeof value === "number" && value === 1) {
+        return EXIT;
+      }
+      return CONTINUE;
+    });
+    const hasValue2 = visited.some((v) => v === 2);
+    assertEquals(hasValue2, false);
+  });
+
+  it("Async DELETE_BREAK from object", async () => {
+    const data = { a: "delete", b: 2 };
+    await visitAsync(data, async (value) => {
+      if (typeof value === "string" && value === "delete") {
+        return { type: "delete", then: BREAK } as any;
+      }
+      return CONTINUE;
+    });
+    assertEquals("a" in data, false);
+  });
+
+  it("Async DELETE_EXIT from object", async () => {
+    const data = { a: "delete", b: 2 };
+    await visitAsync(data, async (value) => {
+      if (typeof value === "string" && value === "delete") {
+        return { type: "delete", then: EXIT } as any;
+      }
+      return CONTINUE;
+    });
+    assertEquals("a" in data, false);
+  });
+
+  it("Async BREAK from array", async () => {
+    const visited: unknown[] = [];
+    const data = [1, 2, 3];
+    await visitAsync(data, async (value) => {
+      visited.push(value);
+      if (value === 2) {
+        return BREAK;
+      }
+      return CONTINUE;
+    });
+    const hasValue3 = visited.some((v) => v === 3);
+    assertEquals(hasValue3, false);
+  });
+
+  it("Async EXIT from array", async () => {
+    const visited: unknown[] = [];
+    const data = { first: [1, 2], second: [3] };
+    await visitAsync(data, async (value) => {
+      visited.push(value);
+      if (value === 2) {
+        return EXIT;
+      }
+      return CONTINUE;
+    });
+    const hasValue3 = visited.some((v) => v === 3);
+    assertEquals(hasValue3, false);
+  });
+
+  it("Async enter/leave", async () => {
+    const events: unknown[] = [];
+    const data = { items: [1, 2] };
+    await visitAsync(data, {
+      enter: async (value) => {
+        events.push(["enter", value]);
+      },
+      leave: async (value) => {
+        events.push(["leave", value]);
+        if (value === 2) return REPLACE(20, CONTINUE);
+      },
+    });
+    assertEquals(events, [
+      ["enter", data],
+      ["enter", data.items],
+      ["enter", 1],
+      ["leave", 1],
+      ["enter", 2],
+      ["leave", 2],
+      ["leave", data.items],
+      ["leave", data],
+    ]);
+    assertEquals(data.items, [1, 20]);
+  });
+
+  it("Async cycles: skip", async () => {
+    const data: any = { items: [] };
+    data.items.push(data);
+    const visited: unknown[] = [];
+    await visitAsync(data, async (value) => {
+      visited.push(value);
+    }, { cycles: "skip" });
+    assertEquals(visited, [data, data.items]);
+  });
+
+  it("Async million-level deep object", async () => {
+    const depth = 1_000_000;
+    const data: any = {};
+    let current = data;
+    for (let i = 0; i < depth; i++) {
+      current = current.next = {};
+    }
+    let visited = 0;
+    await visitAsync(data, async () => {
+      visited++;
+    });
+    assertEquals(visited, depth + 1);
+  });
+
+  it("Async REPLACE_AND_REVISIT", async () => {
+    const data = { items: ["a"] };
+    await visitAsync(data, async (value) => {
+      if (typeof value === "string" && value.length < 3) {
+        return REPLACE_AND_REVISIT(value + value);
+      }
+    });
+    assertEquals(data, { items: ["aaaa"] });
+  });
+
+  it("Async Map entries", async () => {
+    const data = new Map([["a", 1], ["b", 2]]);
+    await visitAsync(data, async (value) => {
+      if (typeof value === "number") return REPLACE(value * 10, CONTINUE);
+    });
+    assertEquals(data, new Map([["a", 10], ["b", 20]]));
+  });
+
+  it("concurrency enters siblings in parallel up to the limit", async () => {
+    const data = { items: [1, 2, 3, 4, 5, 6] };
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const entered: unknown[] = [];
+    await visitAsync(data, async (value) => {
+      entered.push(value);
+      if (typeof value !== "number") return CONTINUE;
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 7 - value));
+      inFlight--;
+      return REPLACE(value * 10, CONTINUE);
+    }, { concurrency: 3 });
+    assertEquals(maxInFlight, 3);
+    assertEquals(data, { items: [10, 20, 30, 40, 50, 60] });
+    assertEquals(entered, [data, data.items, 1, 2, 3, 4, 5, 6]);
+  });
+
+  it("concurrency enters all siblings before their children", async () => {
+    const data = { a: { x: 1 }, b: { y: 2 } };
+    const entered: unknown[] = [];
+    const left: unknown[] = [];
+    await visitAsync(data, {
+      enter: async (value) => {
+        entered.push(value);
+      },
+      leave: async (value) => {
+        left.push(value);
+      },
+    }, { concurrency: 2 });
+    assertEquals(entered, [data, data.a, data.b, 1, 2]);
+    assertEquals(left, [1, data.a, 2, data.b, data]);
+  });
+
+  it("concurrency DELETE keeps array indices correct", async () => {
+    const data = [1, 2, 3, 4, 5, 6, 7, 8];
+    await visitAsync(data, async (value) => {
+      if (typeof value !== "number") return CONTINUE;
+      await new Promise((resolve) => setTimeout(resolve, (value * 7) % 5));
+      return value % 2 === 0 || value === 5 ? DELETE : CONTINUE;
+    }, { concurrency: 4 });
+    assertEquals(data, [1, 3, 7]);
+  });
+
+  it("concurrency BREAK does not start the following siblings", async () => {
+    const data = [1, 2, 3, 4, 5, 6];
+    const entered: unknown[] = [];
+    await visitAsync(data, async (value) => {
+      entered.push(value);
+      if (typeof value !== "number") return CONTINUE;
+      await new Promise((resolve) => setTimeout(resolve, value === 2 ? 1 : 5));
+      return value === 2 ? BREAK : REPLACE(value * 10, CONTINUE);
+    }, { concurrency: 2 });
+    assertEquals(entered, [data, 1, 2]);
+    assertEquals(data, [10, 2, 3, 4, 5, 6]);
+  });
+
+  it("concurrency EXIT discards the results in flight", async () => {
+    const data = [1, 2, 3, 4];
+    const entered: unknown[] = [];
+    await visitAsync(data, async (value) => {
+      entered.push(value);
+      if (typeof value !== "number") return CONTINUE;
+      await new Promise((resolve) => setTimeout(resolve, value === 1 ? 1 : 5));
+      return value === 1 ? EXIT : REPLACE(value * 10, CONTINUE);
+    }, { concurrency: 3 });
+    assertEquals(entered, [data, 1, 2, 3]);
+    assertEquals(data, [1, 2, 3, 4]);
+  });
+
+  it("concurrency passes the parents of each sibling", async () => {
+    const data = { list: ["a", "b"] };
+    const paths: unknown[] = [];
+    await visitAsync(data, async (value, parents) => {
+      if (typeof value === "string") {
+        await new Promise((resolve) =>
+          setTimeout(resolve, value === "a" ? 3 : 1)
+        );
+        paths.push([value, ...parents.map((parent) => parent.key)]);
+      }
+    }, { concurrency: 2 });
+    assertEquals(paths, [["b", "list", 1], ["a", "list", 0]]);
+  });
+
+  it("rejects an invalid concurrency", async () => {
+    await assertRejects(
+      () => visitAsync({}, () => CONTINUE, { concurrency: 0 }),
+      Error,
+      "Invalid concurrency: 0",
+    );
+  });
+
+  it("signal rejects with its reason between nodes", async () => {
+    const controller = new AbortController();
+    const reason = new Error("cancelled");
+    const visited: unknown[] = [];
+    const data = { a: 1, b: 2, c: 3 };
+    const promise = visitAsync(data, async (value, parents, context) => {
+      visited.push(value);
+      if (typeof value === "number" && value === 1) {
+        await new Promise<void>((resolve) => {
+          context.signal!.addEventListener("abort", () => resolve());
+          controller.abort(reason);
+        });
+      }
+    }, { signal: controller.signal });
+    const error = await promise.then(() => undefined, (error) => error);
+    assertStrictEquals(error, reason);
+    assertEquals(visited, [data, 1]);
+  });
+
+  it("signal already aborted rejects before visiting", async () => {
+    const controller = new AbortController();
+    controller.abort(new Error("early"));
+    let called = false;
+    await assertRejects(
+      () =>
+        visitAsync({}, () => {
+          called = true;
+        }, { signal: controller.signal }),
+      Error,
+      "early",
+    );
+    assertEquals(called, false);
+  });
+
+  it("signal stops starting concurrent calls", async () => {
+    const controller = new AbortController();
+    const entered: unknown[] = [];
+    const data = [1, 2, 3, 4, 5];
+    await assertRejects(
+      () =>
+        visitAsync(data, async (value) => {
+          entered.push(value);
+          await new Promise((resolve) =>
+            setTimeout(resolve, value === 1 ? 5 : 1)
+          );
+          if (value === 2) controller.abort(new Error("aborted"));
+        }, { signal: controller.signal, concurrency: 2 }),
+      Error,
+      "aborted",
+    );
+    assertEquals(entered, [data, 1, 2]);
+  });
+
+  it("Async context jsonPointer with concurrency", async () => {
+    const pointers: string[] = [];
+    await visitAsync({ list: ["a", "b"], x: { y: 1 } }, async (
+      value,
+      parents,
+      context,
+    ) => {
+      const pointer = context.jsonPointer;
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      assertEquals(context.jsonPointer, pointer);
+      pointers.push(pointer);
+    }, { concurrency: 4 });
+    assertEquals(pointers.sort(), [
+      "",
+      "/list",
+      "/list/0",
+      "/list/1",
+      "/x",
+      "/x/y",
+    ]);
+  });
+
+  it("Async selector visitor", async () => {
+    const data = { items: [{ id: 1 }, { id: 2 }], other: { id: 3 } };
+    const ids: unknown[] = [];
+    await visitAsync(data, {
+      "$.items[*].id": async (value) => {
+        ids.push(value);
+        return REPLACE(`#${value}`, CONTINUE);
+      },
+    }, { concurrency: 2 });
+    assertEquals(ids, [1, 2]);
+    assertEquals(data, {
+      items: [{ id: "#1" }, { id: "#2" }],
+      other: { id: 3 },
+    });
+  });
+
+  it("Async concurrent traversal skips repeated siblings", async () => {
+    const shared = { x: 1 };
+    const paths: unknown[] = [];
+    await visitAsync<unknown>(
+      { list: [shared, shared] },
+      async (value, parents, context) => {
+        if (value === shared) paths.push(context.path);
+      },
+      { concurrency: 4, cycles: "skip" },
+    );
+    assertEquals(paths, [["list", 0]]);
+  });
+
+  it("Async selector visitor matches shared values by path", async () => {
+    const shared = { x: 1 };
+    const calls: unknown[] = [];
+    await visitAsync([shared, shared], {
+      "$[0].x": async (value, parents) => void calls.push(parents[0].key),
+    }, { concurrency: 4 });
+    assertEquals(calls, [0]);
+  });
+
+  it("Async bfs order with concurrency enters each level concurrently", async () => {
+    const data = { a: { c: 1 }, b: { d: 2 } };
+    const visited: unknown[] = [];
+    await visitAsync(data, async (value) => {
+      visited.push(value);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }, { order: "bfs", concurrency: 4 });
+    assertEquals(visited, [data, data.a, data.b, 1, 2]);
+  });
+});
+
+describe("transform", () => {
+  const deepFreeze = <T>(value: T): T => {
+    visit(value, (node) => {
+      if (typeof node === "object" && node !== null) Object.freeze(node);
+    });
+    return value;
+  };
+
+  it("leaves the input untouched and shares unchanged subtrees", () => {
+    const data = deepFreeze({
+      users: [{ name: "a", age: 1 }, { name: "b", age: 2 }],
+      config: { enabled: true },
+    });
+    const result: any = transform(data, (value: any) => {
+      if (typeof value === "object" && value?.name === "b") {
+        return REPLACE({ ...value, age: 3 }, CONTINUE);
+      }
+    });
+    assertEquals(data, {
+      users: [{ name: "a", age: 1 }, { name: "b", age: 2 }],
+      config: { enabled: true },
+    });
+    assertEquals(result, {
+      users: [{ name: "a", age: 1 }, { name: "b", age: 3 }],
+      config: { enabled: true },
+    });
+    assertNotStrictEquals(result, data);
+    assertNotStrictEquals(result.users, data.users);
+    assertStrictEquals(result.users[0], data.users[0]);
+    assertStrictEquals(result.config, data.config);
+  });
+
+  it("DELETE array elements and object properties", () => {
+    const data = deepFreeze({ list: [1, 2, 3, 2], extra: "x", keep: [4] });
+    const result = transform(data, (value, parents) => {
+      if (typeof value === "number" && value === 2) return DELETE;
+      if (parents.at(-1)?.key === "extra") return DELETE;
+    });
+    assertEquals(result, { list: [1, 3], keep: [4] });
+    assertEquals(data, { list: [1, 2, 3, 2], extra: "x", keep: [4] });
+  });
+
+  it("returns the input when nothing is updated", () => {
+    const data = { a: [1, 2], b: { c: 3 } };
+    assertStrictEquals(transform(data, () => CONTINUE), data);
+  });
+
+  it("REPLACE and DELETE the root", () => {
+    const data = deepFreeze({ wrapper: { value: 1 } });
+    const unwrapped = transform(data, (value: any, parents) => {
+      if (parents.length === 0) return REPLACE(value.wrapper, STEP_OVER);
+    });
+    assertStrictEquals(unwrapped, data.wrapper);
+    assertEquals(
+      transform(data, (value, parents) => {
+        if (parents.length === 0) return DELETE;
+      }),
+      undefined,
+    );
+  });
+
+  it("updates inside a replaced value are not stored over the replacement", () => {
+    const data = deepFreeze({ item: { value: 1 } });
+    const result = transform(data, (value, parents) => {
+      if (parents.at(-1)?.key === "item") return REPLACE("new", CONTINUE);
+      if (typeof value === "number") return REPLACE(2, CONTINUE);
+    });
+    assertEquals(result, { item: "new" });
+    assertEquals(data, { item: { value: 1 } });
+  });
+
+  it("parents and leave reflect the copies", () => {
+    const data = deepFreeze({ outer: { inner: [1, 2] } });
+    const seenParents: unknown[] = [];
+    const left: unknown[] = [];
+    const result: any = transform(data, {
+      enter: (value) => {
+        if (typeof value === "number" && value === 2) {
+          return REPLACE(20, CONTINUE);
+        }
+      },
+      leave: (value, parents) => {
+        if (typeof value === "number" && value === 20) {
+          seenParents.push(...parents.map((parent) => parent.node));
+        }
+        left.push(value);
+      },
+    });
+    assertEquals(result, { outer: { inner: [1, 20] } });
+    assertEquals(seenParents, [result, result.outer, result.outer.inner]);
+    assertStrictEquals(seenParents[2], result.outer.inner);
+    assertStrictEquals(left.at(-2), result.outer);
+    assertStrictEquals(left.at(-1), result);
+  });
+
+  it("REPLACE_AND_REVISIT", () => {
+    const data = deepFreeze({ value: 1 });
+    const result = transform(data, (value) => {
+      if (typeof value === "number" && value < 3) {
+        return REPLACE_AND_REVISIT(value + 1);
+      }
+    });
+    assertEquals(result, { value: 3 });
+    assertEquals(data, { value: 1 });
+  });
+
+  it("Map, Set and class instances", () => {
+    class Point {
+      constructor(public x: number, public y: number) {}
+    }
+    const data = {
+      map: new Map([["a", 1], ["b", 2]]),
+      set: new Set([1, 2]),
+      point: new Point(1, 2),
+    };
+    const result: any = transform(data, (value) => {
+      if (typeof value === "number" && value === 2) {
+        return REPLACE(20, CONTINUE);
+      }
+    });
+    assertEquals([...result.map], [["a", 1], ["b", 20]]);
+    assertEquals([...result.set], [1, 20]);
+    assertInstanceOf(result.point, Point);
+    assertEquals(result.point.y, 20);
+    assertEquals([...data.map], [["a", 1], ["b", 2]]);
+    assertEquals([...data.set], [1, 2]);
+    assertEquals(data.point.y, 2);
+  });
+
+  it("throws when the adapter cannot clone", () => {
+    const adapter = { ...jsonAdapter, clone: undefined };
+    assertThrows(
+      () => transform({ a: 1 }, () => CONTINUE, { adapter }),
+      Error,
+      "Adapter does not support copy-on-write traversal",
+    );
+  });
+});
+
+describe("transformAsync", () => {
+  it("leaves the input untouched and resolves to the new root", async () => {
+    const data = Object.freeze({
+      items: Object.freeze([1, 2, 3]),
+      other: Object.freeze({ a: 1 }),
+    });
+    const result: any = await transformAsync(data, async (value) => {
+      if (typeof value === "number" && value === 2) return DELETE;
+    });
+    assertEquals(result, { items: [1, 3], other: { a: 1 } });
+    assertEquals(data.items, [1, 2, 3]);
+    assertStrictEquals(result.other, data.other);
+  });
+});
+
+describe("visitWhere", () => {
+  type Text = { type: "text"; value: string };
+  type Link = { type: "link"; url: string; children: Text[] };
+  type Paragraph = { type: "paragraph"; children: (Text | Link)[] };
+
+  const isLink = (value: unknown): value is { type: "link" } =>
+    typeof value === "object" && value !== null && "type" in value &&
+    value.type === "link";
+
+  it("only calls the visitor on guarded values, narrowed from the data", () => {
+    const data: Paragraph = {
+      type: "paragraph",
+      children: [
+        { type: "text", value: "see " },
+        {
+          type: "link",
+          url: "http://example.com",
+          children: [{ type: "text", value: "here" }],
+        },
+      ],
+    };
+    const visited: unknown[] = [];
+    const result = visitWhere(data, isLink, (link, parents, context) => {
+      // Narrowed to `Link`, not only `{ type: "link" }`
+      const url: string = link.url;
+      visited.push(context.jsonPointer);
+      link.url = url.replace("http:", "https:");
+    });
+    assertStrictEquals(result, data);
+    assertEquals(visited, ["/children/1"]);
+    assertEquals((data.children[1] as Link).url, "https://example.com");
+  });
+
+  it("applies the flow control of the visitor", () => {
+    const data = [{ type: "link", children: [{ type: "link" }] }, {
+      type: "link",
+    }];
+    const visited: unknown[] = [];
+    visitWhere(data, isLink, (link) => {
+      visited.push(link);
+      return STEP_OVER;
+    });
+    assertEquals(visited, [data[0], data[1]]);
+  });
+
+  it("Async visitWhereAsync", async () => {
+    const data = { a: { type: "link", url: "x" }, b: { type: "text" } };
+    const result: any = await visitWhereAsync(data, isLink, async (link) => {
+      return REPLACE({ ...link, url: "y" }, CONTINUE);
+    });
+    assertEquals(result, {
+      a: { type: "link", url: "y" },
+      b: { type: "text" },
+    });
+  });
+});
+
+describe("visitByType", () => {
+  type Text = { type: "text"; value: string };
+  type Heading = { type: "heading"; depth: 1 | 2 | 3; children: Text[] };
+  type Code = { type: "code"; value: string };
+  type Root = { type: "root"; children: (Heading | Text | Code)[] };
+
+  const createTree = (): Root => ({
+    type: "root",
+    children: [
+      { type: "heading", depth: 1, children: [{ type: "text", value: "a" }] },
+      { type: "text", value: "b" },
+      { type: "code", value: "c" },
+    ],
+  });
+
+  it("calls the function keyed by the type of each value", () => {
+    const tree = createTree();
+    const visited: string[] = [];
+    visitByType(tree, {
+      heading: (heading) => {
+        const depth: 1 | 2 | 3 = heading.depth;
+        visited.push(`heading ${depth}`);
+        heading.depth = 2;
+      },
+      text: (text) => {
+        visited.push(`text ${text.value}`);
+        return REPLACE({ ...text, value: text.value.toUpperCase() }, CONTINUE);
+      },
+      code: () => DELETE,
+    });
+    assertEquals(visited, ["heading 1", "text a", "text b"]);
+    assertEquals(tree, {
+      type: "root",
+      children: [
+        { type: "heading", depth: 2, children: [{ type: "text", value: "A" }] },
+        { type: "text", value: "B" },
+      ],
+    });
+  });
+
+  it("rejects unknown types", () => {
+    visitByType(createTree(), {
+      // @ts-expect-error: there is no such type in the tree
+      unknown: () => CONTINUE,
+    });
+  });
+
+  it("ignores inherited keys", () => {
+    const visited: unknown[] = [];
+    visitByType([{ type: "toString" }, { type: "a" }], {
+      a: (value) => {
+        visited.push(value);
+      },
+    });
+    assertEquals(visited, [{ type: "a" }]);
+  });
+
+  it("Async visitByTypeAsync", async () => {
+    const tree = createTree();
+    const visited: string[] = [];
+    await visitByTypeAsync(tree, {
+      text: async (text) => {
+        visited.push(text.value);
+      },
+      heading: async () => STEP_OVER,
+    }, { adapter: unistAdapter });
+    assertEquals(visited, ["b"]);
+  });
+});
+
+describe("walk", () => {
+  it("yields each value with its location", () => {
+    const data = { a: [1, { b: 2 }] };
+    const entries = [...walk(data)].map(({ value, path, jsonPointer }) => ({
+      value,
+      path,
+      jsonPointer,
+    }));
+    assertEquals(entries, [
+      { value: data, path: [], jsonPointer: "" },
+      { value: data.a, path: ["a"], jsonPointer: "/a" },
+      { value: 1, path: ["a", 0], jsonPointer: "/a/0" },
+      { value: { b: 2 }, path: ["a", 1], jsonPointer: "/a/1" },
+      { value: 2, path: ["a", 1, "b"], jsonPointer: "/a/1/b" },
+    ]);
+  });
+
+  it("entries stay valid once the iteration moved on", () => {
+    const data = { a: { b: 1 }, c: 2 };
+    const entries = [...walk(data)];
+    assertEquals(entries.map((entry) => entry.parents.length), [0, 1, 2, 1]);
+    assertEquals(entries[2].parents, [
+      { node: data, key: "a" },
+      { node: data.a, key: "b" },
+    ]);
+    assertStrictEquals(entries[2].parent, data.a);
+  });
+
+  it("stops when leaving the loop", () => {
+    const data = [1, 2, 3];
+    const visited: unknown[] = [];
+    for (const { value } of walk(data)) {
+      visited.push(value);
+      if (value === 2) break;
+    }
+    assertEquals(visited, [data, 1, 2]);
+  });
+
+  it("applies the flow controls sent back and returns the final root", () => {
+    const data = { skip: { hidden: 1 }, replace: 1, list: [1, 2, 3] };
+    const iterator = walk(data);
+    const visited: unknown[] = [];
+    let step = iterator.next();
+    while (!step.done) {
+      const { value, key } = step.value;
+      visited.push(value);
+      step = iterator.next(
+        key === "skip"
+          ? STEP_OVER
+          : key === "replace"
+          ? REPLACE(10, CONTINUE)
+          : value === 2
+          ? DELETE_BREAK
+          : undefined,
+      );
+    }
+    assertStrictEquals(step.value, data);
+    assertEquals(visited, [data, data.skip, 1, data.list, 1, 2]);
+    assertEquals(data, { skip: { hidden: 1 }, replace: 10, list: [1, 3] });
+  });
+
+  it("Async walkAsync", async () => {
+    const data = { a: [1, 2] };
+    const visited: unknown[] = [];
+    const iterator = walkAsync(data);
+    let step = await iterator.next();
+    while (!step.done) {
+      visited.push(step.value.jsonPointer);
+      step = await iterator.next(
+        step.value.key === "a" ? REPLACE("x", STEP_OVER) : undefined,
+      );
+    }
+    assertEquals(visited, ["", "/a"]);
+    assertEquals(step.value, { a: "x" });
+  });
+
+  it("Async walkAsync stops once the signal is aborted", async () => {
+    const controller = new AbortController();
+    const visited: unknown[] = [];
+    await assertRejects(
+      async () => {
+        for await (
+          const { value } of walkAsync([1, 2, 3], { signal: controller.signal })
+        ) {
+          visited.push(value);
+          if (value === 1) controller.abort(new Error("stopped"));
+        }
+      },
+      Error,
+      "stopped",
+    );
+    assertEquals(visited, [[1, 2, 3], 1]);
+  });
+});
+
+describe("find", () => {
+  const data = {
+    users: [
+      { name: "a", role: "user", tags: ["x"] },
+      { name: "b", role: "admin", tags: [] },
+      { name: "c", role: "admin", tags: ["x", "y"] },
+    ],
+    owner: { name: "d", role: "admin" },
+  };
+  const isAdmin = (value: any) =>
+    typeof value === "object" && value?.role === "admin";
+
+  it("find returns the first match and its path, and stops there", () => {
+    let calls = 0;
+    const result = find(data, (value) => {
+      calls++;
+      return isAdmin(value);
+    });
+    assertEquals(result, { value: data.users[1], path: ["users", 1] });
+    assertEquals(calls, 8);
+    assertEquals(find(data, (value) => value === "missing"), undefined);
+  });
+
+  it("find with bfs order returns the shallowest match", () => {
+    assertEquals(find(data, isAdmin, { order: "bfs" }), {
+      value: data.owner,
+      path: ["owner"],
+    });
+  });
+
+  it("findAll returns all the matches in traversal order", () => {
+    assertEquals(
+      findAll(data, (value) => value === "x").map(({ path }) => path),
+      [["users", 0, "tags", 0], ["users", 2, "tags", 0]],
+    );
+  });
+
+  it("some, every and count", () => {
+    assertEquals(some(data, isAdmin), true);
+    assertEquals(some(data, (value) => value === "z"), false);
+    assertEquals(every(data, (value) => value !== null), true);
+    assertEquals(every(data, (value) => typeof value !== "number"), true);
+    assertEquals(every(data, (value) => typeof value !== "string"), false);
+    assertEquals(count(data, isAdmin), 3);
+    assertEquals(count(data, (value, parents, { key }) => key === "name"), 4);
+  });
+
+  it("every stops at the first mismatch", () => {
+    const visited: unknown[] = [];
+    every([1, "a", 2], (value) => {
+      visited.push(value);
+      return typeof value !== "string";
+    });
+    assertEquals(visited, [[1, "a", 2], 1, "a"]);
+  });
+
+  it("Async findAsync, findAllAsync, someAsync, everyAsync and countAsync", async () => {
+    const wait = (ms: number) =>
+      new Promise((resolve) => setTimeout(resolve, ms));
+    assertEquals(await findAsync(data, async (value) => isAdmin(value)), {
+      value: data.users[1],
+      path: ["users", 1],
+    });
+    assertEquals(
+      (await findAllAsync(data, async (value) => value === "x")).length,
+      2,
+    );
+    assertEquals(await someAsync(data, async (value) => value === "y"), true);
+    assertEquals(await everyAsync(data, async (value) => value !== "y"), false);
+    assertEquals(await countAsync(data, async (value) => isAdmin(value)), 3);
+    // Later matches resolving first are still returned after earlier ones
+    const delayed = async (value: unknown, parents: readonly ParentInfo[]) => {
+      await wait(parents.length === 1 ? 5 : 1);
+      return isAdmin(value) || value === "y";
+    };
+    assertEquals(
+      await findAsync(data, delayed, { concurrency: 4 }),
+      { value: data.users[1], path: ["users", 1] },
+    );
+    assertEquals(
+      (await findAllAsync(data, delayed, { concurrency: 4 })).map(({ path }) =>
+        path
+      ),
+      [["users", 1], ["users", 2], ["users", 2, "tags", 1], ["owner"]],
+    );
+  });
+});
+
+describe("fold", () => {
+  const sum = (results: ReadonlyMap<unknown, number>) =>
+    [...results.values()].reduce((a, b) => a + b, 0);
+
+  it("combines the results of the children, keyed like the parents", () => {
+    const data = { a: [1, 2], b: { c: "x" }, d: {} };
+    const calls: unknown[] = [];
+    const shape = fold<typeof data, unknown>(data, {
+      leaf: (value, parents) => {
+        calls.push(parents.map(({ key }) => key));
+        return typeof value;
+      },
+      combine: (value, results) => {
+        calls.push([...results.keys()]);
+        return Array.isArray(value)
+          ? [...results.values()]
+          : Object.fromEntries(results);
+      },
+    });
+    assertEquals(shape, {
+      a: ["number", "number"],
+      b: { c: "string" },
+      d: {},
+    });
+    assertEquals(calls, [
+      ["a", 0],
+      ["a", 1],
+      [0, 1],
+      ["b", "c"],
+      ["c"],
+      [],
+      ["a", "b", "d"],
+    ]);
+  });
+
+  it("computes the size of a tree", () => {
+    const size = fold([[1, [2, 3]], new Map([["k", new Set([4])]])], {
+      leaf: () => 1,
+      combine: (_, results) => 1 + sum(results),
+    });
+    assertEquals(size, 9);
+    assertEquals(fold(42, { leaf: () => 1, combine: () => 0 }), 1);
+  });
+
+  it("leaves out values skipped as repeated", () => {
+    const shared = { x: 1 };
+    const data = { a: shared, b: shared };
+    const keys = fold(data, {
+      leaf: () => [] as unknown[],
+      combine: (_, results) => [...results.keys()],
+    }, { cycles: "skip" });
+    assertEquals(keys, ["a"]);
+  });
+
+  it("hands empty containers to combine", () => {
+    const data = { a: {}, b: [] as unknown[], c: 1 };
+    const calls: string[] = [];
+    fold<unknown, void>(data, {
+      leaf: () => void calls.push("leaf"),
+      combine: (_, results) => void calls.push(`combine ${results.size}`),
+    });
+    assertEquals(calls, ["combine 0", "combine 0", "leaf", "combine 3"]);
+  });
+
+  it("rejects breadth-first order", async () => {
+    const reducer = { leaf: () => 0, combine: () => 0 };
+    assertThrows(
+      () => fold({}, reducer, { order: "bfs" }),
+      Error,
+      "Breadth-first order is not supported when folding",
+    );
+    await assertRejects(
+      () => foldAsync({}, reducer, { order: "bfs" }),
+      Error,
+      "Breadth-first order is not supported when folding",
+    );
+  });
+
+  it("foldAsync awaits leaf and combine", async () => {
+    const data = { a: [1, 2, { b: 3 }], c: 4 };
+    const total = await foldAsync(data, {
+      leaf: async (value) => typeof value === "number" ? value : 0,
+      combine: async (_, results) => sum(results),
+    }, { concurrency: 3 });
+    assertEquals(total, 10);
+  });
+});
+
+describe("diff", () => {
+  it("compares objects by key and arrays by index", () => {
+    assertEquals(
+      diff<Record<string, unknown>>(
+        { name: "app", tags: ["a", "b"], debug: true, nested: { x: [1, 2] } },
+        { name: "app2", tags: ["a", "b", "c"], nested: { x: [1] }, "a/b": 1 },
+      ),
+      [
+        { op: "remove", path: "/debug" },
+        { op: "add", path: "/a~1b", value: 1 },
+        { op: "replace", path: "/name", value: "app2" },
+        { op: "add", path: "/tags/2", value: "c" },
+        { op: "remove", path: "/nested/x/1" },
+      ],
+    );
+  });
+
+  it("replaces values of different kinds as a whole", () => {
+    const data = { a: [1] };
+    assertEquals(diff(data, data), []);
+    assertEquals(diff<unknown>(1, 2), [{ op: "replace", path: "", value: 2 }]);
+    assertEquals(diff<unknown>({ a: [1] }, { a: { 0: 1 } }), [
+      { op: "replace", path: "/a", value: { 0: 1 } },
+    ]);
+    assertEquals(diff<unknown>({ a: null }, { a: {} }), [
+      { op: "replace", path: "/a", value: {} },
+    ]);
+  });
+
+  it("compares Map entries by key", () => {
+    assertEquals(
+      diff(new Map([["a", 1], ["b", 2]]), new Map([["b", 3], ["c", 4]])),
+      [
+        { op: "remove", path: "/a" },
+        { op: "add", path: "/c", value: 4 },
+        { op: "replace", path: "/b", value: 3 },
+      ],
+    );
+  });
+
+  it("matches array elements by identity", () => {
+    const before = [{ id: 1, v: 1 }, { id: 2, v: 2 }, { id: 3, v: 3 }];
+    const after = [{ id: 3, v: 3 }, { id: 1, v: 9 }, { id: 4, v: 4 }];
+    const expected = [
+      { op: "remove", path: "/1" },
+      { op: "remove", path: "/1" },
+      { op: "add", path: "/0", value: after[0] },
+      { op: "add", path: "/2", value: after[2] },
+      { op: "replace", path: "/1/v", value: 9 },
+    ];
+    assertEquals(diff(before, after, { arrayIdentity: "id" }), expected);
+    assertEquals(
+      diff(before, after, { arrayIdentity: (item: any) => item.id }),
+      expected,
+    );
+    assertEquals(
+      diff({ list: before }, { list: [before[0], before[2]] }, {
+        arrayIdentity: "id",
+      }),
+      [{ op: "remove", path: "/list/1" }],
+    );
+  });
+});
+
+describe("applyPatch", () => {
+  it("onPatch records the updates with the indices at the time", () => {
+    const data = { items: [1, 2, 3, 4], meta: { draft: true, n: 1 } };
+    const original = structuredClone(data);
+    const operations: JsonPatchOperation[] = [];
+    visit(data, (value, parents, { key }) => {
+      if (value === 2 || value === 3) return DELETE;
+      if (value === 4) return REPLACE(40, CONTINUE);
+      if (key === "draft") return DELETE;
+      if (value === 1 && key === "n") return REPLACE(1, CONTINUE);
+      if (value === 1) return REPLACE_AND_REVISIT(10);
+    }, { onPatch: (operation) => operations.push(operation) });
+    assertEquals(operations, [
+      { op: "replace", path: "/items/0", value: 10 },
+      { op: "remove", path: "/items/1" },
+      { op: "remove", path: "/items/1" },
+      { op: "replace", path: "/items/1", value: 40 },
+      { op: "remove", path: "/meta/draft" },
+    ]);
+    assertEquals(applyPatch(original, operations), data);
+  });
+
+  it("onPatch records updates of the root and of leave visitors", () => {
+    const operations: JsonPatchOperation[] = [];
+    const onPatch = (operation: JsonPatchOperation) =>
+      operations.push(operation);
+    const data = Object.freeze({ a: Object.freeze([1]) });
+    const result = transform(data, {
+      leave: (value) =>
+        Array.isArray(value) ? REPLACE([2], CONTINUE) : CONTINUE,
+    }, { onPatch });
+    assertEquals(result, { a: [2] });
+    visit([1], () => DELETE, { onPatch });
+    assertEquals(operations, [
+      { op: "replace", path: "/a", value: [2] },
+      { op: "remove", path: "" },
+    ]);
+    assertEquals(applyPatch([1], [{ op: "remove", path: "" }]), undefined);
+  });
+
+  it("onPatch skips the updates made inside replaced values", () => {
+    const data: any = { a: { b: 1 }, c: [{ d: 2 }] };
+    const original = structuredClone(data);
+    const operations: JsonPatchOperation[] = [];
+    const changes: unknown[] = [];
+    visit<unknown>(data, (value: any) => {
+      if (value?.b === 1) return REPLACE("x", CONTINUE);
+      if (value?.d === 2) return REPLACE({ e: 3 }, CONTINUE);
+      if (value === 1 || value === 2) return DELETE;
+    }, {
+      onPatch: (operation) => operations.push(operation),
+      onChange: ({ path }) => changes.push(path),
+    });
+    assertEquals(data, { a: "x", c: [{ e: 3 }] });
+    assertEquals(operations, [
+      { op: "replace", path: "/a", value: "x" },
+      { op: "replace", path: "/c/0", value: { e: 3 } },
+    ]);
+    assertEquals(changes, [["a"], ["c", 0]]);
+    assertEquals(applyPatch(original, operations), data);
+  });
+
+  it("visitAsync accepts onPatch", async () => {
+    const operations: JsonPatchOperation[] = [];
+    await visitAsync({ "a/b": ["x"] }, async (value) => {
+      if (value === "x") return DELETE;
+    }, { onPatch: (operation) => operations.push(operation) });
+    assertEquals(operations, [{ op: "remove", path: "/a~1b/0" }]);
+  });
+
+  it("replays the operations of diff", () => {
+    const before = {
+      name: "app",
+      users: [{ id: 1, v: 1 }, { id: 2, v: 2 }, { id: 3, v: 3 }],
+      env: new Map<unknown, unknown>([[1, "a"], ["x", { y: 1 }]]),
+    };
+    const after = {
+      name: "app2",
+      users: [{ id: 3, v: 3 }, { id: 1, v: 9 }, { id: 4, v: 4 }],
+      env: new Map<unknown, unknown>([[1, "b"], ["x", { y: 2, z: 3 }]]),
+    };
+    for (const arrayIdentity of [undefined, "id"]) {
+      const patched = applyPatch(
+        structuredClone(before),
+        diff(before, after, { arrayIdentity }),
+      );
+      assertEquals(patched, after);
+    }
+  });
+
+  it("adds Set members and Map entries", () => {
+    const before = { s: new Set([1]) };
+    const after = { s: new Set([1, 2]) };
+    assertEquals(applyPatch(before, diff(before, after)), after);
+    const data = new Map<unknown, unknown>([[1, "x"]]);
+    const operations: JsonPatchOperation[] = [];
+    visit<unknown>(
+      data,
+      (value) => value === "x" ? RENAME(2, CONTINUE) : CONTINUE,
+      { onPatch: (operation) => operations.push(operation) },
+    );
+    assertEquals(operations, [{ op: "move", from: "/1", path: "/2" }]);
+    // Pointers do not keep the type of Map keys
+    assertEquals(
+      [
+        ...(applyPatch(new Map([[1, "x"]]), operations) as Map<
+          unknown,
+          unknown
+        >),
+      ],
+      [["2", "x"]],
+    );
+  });
+
+  it("adds array elements by index or at the end", () => {
+    assertEquals(
+      applyPatch({ a: [1, 3] }, [
+        { op: "add", path: "/a/1", value: 2 },
+        { op: "add", path: "/a/-", value: 4 },
+        { op: "add", path: "/b", value: true },
+        { op: "replace", path: "", value: [0] },
+        { op: "add", path: "/0", value: -1 },
+      ]),
+      [-1, 0],
+    );
+  });
+
+  it("throws on invalid paths", () => {
+    assertThrows(
+      () => applyPatch({}, [{ op: "remove", path: "/a" }]),
+      Error,
+      "No value found at /a",
+    );
+    assertThrows(
+      () => applyPatch({}, [{ op: "add", path: "/a/b", value: 1 }]),
+      Error,
+      "No value found at /a/b",
+    );
+    assertThrows(
+      () => applyPatch([], [{ op: "add", path: "/1", value: 1 }]),
+      Error,
+      "Invalid array index at /1",
+    );
+    assertThrows(
+      () => applyPatch({}, [{ op: "replace", path: "a", value: 1 }]),
+      Error,
+      "Invalid JSON Pointer: a",
+    );
+  });
+});
+
+describe("dryRun", () => {
+  it("reports the planned updates and leaves the input untouched", () => {
+    const data = { items: ["a", "tmp", "b", "tmp"], meta: { n: 1 } };
+    const original = structuredClone(data);
+    const changes: VisitChange[] = [];
+    const seen: unknown[] = [];
+    const result = visit<unknown>(data, (value, parents, { path }) => {
+      if (typeof value === "string") seen.push(path);
+      if (value === "tmp") return DELETE;
+      if (value === 1) return REPLACE(2, CONTINUE);
+    }, { dryRun: true, onChange: (change) => changes.push(change) });
+    assertStrictEquals(result, data);
+    assertEquals(data, original);
+    // Indices are shifted as if the deletions had been applied
+    assertEquals(seen, [
+      ["items", 0],
+      ["items", 1],
+      ["items", 1],
+      ["items", 2],
+    ]);
+    assertEquals(changes, [
+      {
+        type: "delete",
+        path: ["items", 1],
+        jsonPointer: "/items/1",
+        oldValue: "tmp",
+        newValue: undefined,
+      },
+      {
+        type: "delete",
+        path: ["items", 2],
+        jsonPointer: "/items/2",
+        oldValue: "tmp",
+        newValue: undefined,
+      },
+      {
+        type: "replace",
+        path: ["meta", "n"],
+        jsonPointer: "/meta/n",
+        oldValue: 1,
+        newValue: 2,
+      },
+    ]);
+  });
+
+  it("onChange reports the updates of a regular traversal", () => {
+    const changes: VisitChange[] = [];
+    const result = visit<unknown>({ a: 1 }, (value) => {
+      if (value === 1) return REPLACE_AND_REVISIT(2);
+    }, { onChange: (change) => changes.push(change) });
+    assertEquals(result, { a: 2 });
+    assertEquals(changes, [{
+      type: "replace",
+      path: ["a"],
+      jsonPointer: "/a",
+      oldValue: 1,
+      newValue: 2,
+    }]);
+  });
+
+  it("visitAsync supports dry runs", async () => {
+    const data = [[1], [2]];
+    const changes: VisitChange[] = [];
+    const result = await visitAsync(data, async (value) => {
+      if (Array.isArray(value) && value[0] === 1) return DELETE;
+    }, {
+      dryRun: true,
+      concurrency: 2,
+      onChange: (change) => changes.push(change),
+    });
+    assertStrictEquals(result, data);
+    assertEquals(data, [[1], [2]]);
+    assertEquals(changes.map(({ jsonPointer }) => jsonPointer), ["/0"]);
+  });
+
+  it("requires an adapter supporting copies", () => {
+    assertThrows(
+      () =>
+        visit({}, () => {}, {
+          dryRun: true,
+          adapter: { ...defaultAdapter, clone: undefined },
+        }),
+      Error,
+      "Adapter does not support copy-on-write traversal",
+    );
+  });
+});
+
+describe("composeVisitors", () => {
+  it("runs all the visitors in a single traversal", () => {
+    const calls: string[] = [];
+    const data = { a: [1, 2], b: "x" };
+    visit<unknown>(
+      data,
+      composeVisitors<unknown>(
+        (value, parents, { jsonPointer }) => {
+          calls.push(`first ${jsonPointer}`);
+        },
+        { "$.a[*]": (value) => void calls.push(`selector ${value}`) },
+        {
+          leave: (value, parents, { jsonPointer }) =>
+            void calls.push(`leave ${jsonPointer}`),
+        },
+      ),
+    );
+    assertEquals(calls, [
+      "first ",
+      "first /a",
+      "first /a/0",
+      "selector 1",
+      "leave /a/0",
+      "first /a/1",
+      "selector 2",
+      "leave /a/1",
+      "leave /a",
+      "first /b",
+      "leave /b",
+      "leave ",
+    ]);
+  });
+
+  it("applies the first REPLACE and calls the following visitors on the new value", () => {
+    const seen: unknown[] = [];
+    const result = visit<unknown>(
+      { a: 1 },
+      composeVisitors<unknown>(
+        (value) => value === 1 ? REPLACE(2, CONTINUE) : CONTINUE,
+        (value) => {
+          seen.push(value);
+          return typeof value === "number" ? REPLACE(3, CONTINUE) : CONTINUE;
+        },
+      ),
+    );
+    assertEquals(result, { a: 2 });
+    assertEquals(seen.slice(1), [2]);
+  });
+
+  it("returns DELETE right away", () => {
+    const seen: unknown[] = [];
+    const result = visit<unknown>(
+      [1, 2, 3],
+      composeVisitors<unknown>(
+        (value) => value === 2 ? DELETE : CONTINUE,
+        (value) => void seen.push(value),
+      ),
+    );
+    assertEquals(result, [1, 3]);
+    assertEquals(seen, [[1, 3], 1, 3]);
+  });
+
+  it("revisits the new value with all the visitors", () => {
+    const seen: unknown[] = [];
+    const result = visit<unknown>(
+      ["a"],
+      composeVisitors<unknown>(
+        (value) => value === "a" ? REPLACE_AND_REVISIT("b") : CONTINUE,
+        (value) => void seen.push(value),
+      ),
+    );
+    assertEquals(result, ["b"]);
+    assertEquals(seen, [["b"], "b"]);
+  });
+
+  it("steps over only when all the visitors agree", () => {
+    const data = { a: { x: 1 }, b: { y: 2 } };
+    const seen: unknown[] = [];
+    visit<unknown>(
+      data,
+      composeVisitors<unknown>(
+        (value, parents, { key, path }) => {
+          seen.push(path.join("."));
+          return key === "a" || key === "b" ? STEP_OVER : CONTINUE;
+        },
+        (value, parents, { key }) => key === "b" ? STEP_OVER : CONTINUE,
+      ),
+    );
+    assertEquals(seen, ["", "a", "a.x", "b"]);
+  });
+
+  it("breaks or exits when any visitor does", () => {
+    const seen: unknown[] = [];
+    const trace = (value: unknown) => void seen.push(value);
+    visit<unknown>(
+      [1, [2, 3], 4],
+      composeVisitors<unknown>(
+        (value) => value === 2 ? BREAK : CONTINUE,
+        trace,
+      ),
+    );
+    assertEquals(seen, [[1, [2, 3], 4], 1, [2, 3], 2, 4]);
+    seen.length = 0;
+    const result = visit<unknown>(
+      [1, 2, 3],
+      composeVisitors<unknown>(
+        (value) => value === 2 ? REPLACE(20, CONTINUE) : CONTINUE,
+        (value) => value === 20 ? EXIT : CONTINUE,
+        trace,
+      ),
+    );
+    assertEquals(result, [1, 20, 3]);
+    assertEquals(seen.slice(1), [1]);
+  });
+
+  it("composeAsyncVisitors awaits the visitors in order", async () => {
+    const calls: string[] = [];
+    const result = await visitAsync<unknown>(
+      { a: "x" },
+      composeAsyncVisitors<unknown>(
+        async (value) => {
+          calls.push("first");
+          return value === "x" ? REPLACE("y", CONTINUE) : CONTINUE;
+        },
+        { leave: async (value) => void calls.push(`leave ${value}`) },
+      ),
+    );
+    assertEquals(result, { a: "y" });
+    assertEquals(calls, ["first", "first", "leave y", "leave [object Object]"]);
+  });
+});
+
+describe("rewriteToFixpoint", () => {
+  type Expr = { type: "and"; args: Expr[] } | { type: "lit"; value: boolean };
+  const isAnd = (value: unknown): value is Expr & { type: "and" } =>
+    typeof value === "object" && value !== null && "type" in value &&
+    value.type === "and";
+  // Each pass only flattens one level, from the leaves up
+  const flattenAnd: Visitor<unknown> = {
+    leave: (value) => {
+      if (!isAnd(value) || !value.args.some(isAnd)) return CONTINUE;
+      return REPLACE({
+        type: "and",
+        args: value.args.flatMap((arg) => isAnd(arg) ? arg.args : [arg]),
+      }, CONTINUE);
+    },
+  };
+  const foldTrue: Visitor<unknown> = (value, parents) =>
+    parents.at(-1)?.key === "args" || !isAnd(value)
+      ? CONTINUE
+      : value.args.length === 1
+      ? REPLACE_AND_REVISIT(value.args[0])
+      : CONTINUE;
+  const lit = (value: boolean): Expr => ({ type: "lit", value });
+
+  it("reapplies the rules until nothing changes", () => {
+    const expression: Expr = {
+      type: "and",
+      args: [{ type: "and", args: [{ type: "and", args: [lit(true)] }] }],
+    };
+    const { root, passes } = rewriteToFixpoint<unknown>(expression, [
+      foldTrue,
+      flattenAnd,
+    ]);
+    assertEquals(root, lit(true));
+    assertEquals(passes, 2);
+    assertEquals(rewriteToFixpoint<unknown>(lit(false), flattenAnd), {
+      root: lit(false),
+      passes: 1,
+    });
+  });
+
+  it("reports the changes of all the passes", () => {
+    const changes: unknown[] = [];
+    const { passes } = rewriteToFixpoint<unknown>(
+      { n: 0 },
+      (value) =>
+        typeof value === "number" && value < 3
+          ? REPLACE(value + 1, CONTINUE)
+          : CONTINUE,
+      { onChange: ({ newValue }) => changes.push(newValue) },
+    );
+    assertEquals(passes, 4);
+    assertEquals(changes, [1, 2, 3]);
+  });
+
+  it("throws with the last updated path after maxIterations passes", () => {
+    assertThrows(
+      () =>
+        rewriteToFixpoint<unknown>(
+          { a: [true] },
+          (value) =>
+            typeof value === "boolean" ? REPLACE(!value, CONTINUE) : CONTINUE,
+          { maxIterations: 5 },
+        ),
+      Error,
+      "No fixed point reached after 5 passes (last updated value at $.a[0])",
+    );
+  });
+
+  it("rewriteToFixpointAsync awaits the rules", async () => {
+    const result = await rewriteToFixpointAsync<unknown>(
+      [1, 2, 3],
+      [
+        async (value) => value === 2 ? DELETE : CONTINUE,
+        async (value) => value === 3 ? REPLACE(2, CONTINUE) : CONTINUE,
+      ],
+    );
+    assertEquals(result, { root: [1], passes: 3 });
+    await assertRejects(
+      () =>
+        rewriteToFixpointAsync<unknown>(
+          [0],
+          async (value) =>
+            typeof value === "number" ? REPLACE(value + 1, CONTINUE) : CONTINUE,
+          { maxIterations: 2 },
+        ),
+      Error,
+      "No fixed point reached after 2 passes (last updated value at $[0])",
+    );
+  });
+});
+
+describe("insertions", () => {
+  it("INSERT_BEFORE inserts values that are not visited", () => {
+    const data: unknown[] = [1, [2], 3];
+    const seen: string[] = [];
+    visit<unknown>(data, (value, parents, { jsonPointer }) => {
+      seen.push(`${jsonPointer} ${JSON.stringify(value)}`);
+      if (Array.isArray(value) && parents.length === 1) {
+        return INSERT_BEFORE(["a", "b"], CONTINUE);
+      }
+    });
+    assertEquals(data, [1, "a", "b", [2], 3]);
+    assertEquals(seen, [
+      " [1,[2],3]",
+      "/0 1",
+      "/1 [2]",
+      "/3/0 2",
+      "/4 3",
+    ]);
+  });
+
+  it("INSERT_AFTER inserts values visited as the following siblings", () => {
+    const data: unknown[] = [1, 2, 3];
+    const seen: unknown[] = [];
+    visit<unknown>(data, (value) => {
+      seen.push(value);
+      if (value === 1) return INSERT_AFTER(["a"], CONTINUE);
+      if (value === 2) return INSERT_AFTER(["b"], BREAK);
+    });
+    assertEquals(data, [1, "a", 2, "b", 3]);
+    assertEquals(seen.slice(1), [1, "a", 2]);
+  });
+
+  it("REPLACE_WITH_MANY visits the new values in place of the current one", () => {
+    const data: unknown[] = ["macro", 1, "empty", 2];
+    const seen: unknown[] = [];
+    visit<unknown>(data, (value) => {
+      seen.push(value);
+      if (value === "macro") {
+        return REPLACE_WITH_MANY(["x", [3], "y"], CONTINUE);
+      }
+      if (value === "empty") return REPLACE_WITH_MANY([], CONTINUE);
+    });
+    assertEquals(data, ["x", [3], "y", 1, 2]);
+    assertEquals(seen.slice(1), ["macro", "x", [3], 3, "y", 1, "empty", 2]);
+  });
+
+  it("throws when the current value is not an array element", () => {
+    assertThrows(
+      () =>
+        visit<unknown>(
+          { a: 1 },
+          (value) => value === 1 ? INSERT_AFTER([2], CONTINUE) : CONTINUE,
+        ),
+      Error,
+      "Values can only be inserted next to array elements, not at $.a",
+    );
+    assertThrows(
+      () => visit<unknown>([1], () => REPLACE_WITH_MANY([1, 2], CONTINUE)),
+      Error,
+      "Values can only be inserted next to array elements, not at $",
+    );
+    assertThrows(
+      () =>
+        visit<unknown>(
+          new Set([1]),
+          (value) => value === 1 ? INSERT_BEFORE([0], CONTINUE) : CONTINUE,
+        ),
+      Error,
+      "Values can only be inserted next to array elements, not at $[1]",
+    );
+    assertThrows(
+      () =>
+        visit<unknown>(
+          [1],
+          (value) => value === 1 ? INSERT_BEFORE([0], CONTINUE) : CONTINUE,
+          {
+            adapter: { ...defaultAdapter, insertChildren: undefined },
+          },
+        ),
+      Error,
+      "Adapter does not support inserting values",
+    );
+  });
+
+  it("reports insertions and supports copy-on-write", () => {
+    const data = Object.freeze([1, Object.freeze([2]), 3]);
+    const operations: JsonPatchOperation[] = [];
+    const result = transform<unknown>(data, (value) => {
+      if (value === 1) return INSERT_BEFORE([0], CONTINUE);
+      if (value === 2) return REPLACE_WITH_MANY([20, 21], STEP_OVER);
+      if (value === 3) return INSERT_AFTER([4], STEP_OVER);
+    }, { onPatch: (operation) => operations.push(operation) });
+    assertEquals(result, [0, 1, [20, 21], 3, 4]);
+    assertEquals(data, [1, [2], 3]);
+    assertEquals(operations, [
+      { op: "add", path: "/0", value: 0 },
+      { op: "remove", path: "/2/0" },
+      { op: "add", path: "/2/0", value: 20 },
+      { op: "add", path: "/2/1", value: 21 },
+      { op: "add", path: "/4", value: 4 },
+    ]);
+    assertEquals(applyPatch(structuredClone(data), operations), result);
+  });
+
+  it("keeps concurrent results aligned after insertions", async () => {
+    const data: unknown[] = [1, 2, 3, 4];
+    const calls: unknown[] = [];
+    await visitAsync<unknown>(data, async (value) => {
+      calls.push(value);
+      if (value === 2) return INSERT_AFTER(["a", "b"], CONTINUE);
+      if (value === 3) return REPLACE_WITH_MANY(["c"], CONTINUE);
+    }, { concurrency: 4 });
+    assertEquals(data, [1, 2, "a", "b", "c", 4]);
+    assertEquals(calls.slice(1), [1, 2, 3, 4, "a", "b", "c"]);
+  });
+
+  it("composeVisitors keeps the first insertion", () => {
+    const data: unknown[] = [1];
+    const seen: unknown[] = [];
+    visit<unknown>(
+      data,
+      composeVisitors<unknown>(
+        (value) => value === 1 ? INSERT_AFTER([2], CONTINUE) : CONTINUE,
+        (value) => {
+          seen.push(value);
+          return value === 1 ? REPLACE(10, CONTINUE) : CONTINUE;
+        },
+      ),
+    );
+    assertEquals(data, [1, 2]);
+    assertEquals(seen.slice(1), [1, 2]);
+  });
+});
+
+describe("rename and move", () => {
+  it("renames properties in place, keeping their position", () => {
+    const data: any = { a: 1, b_c: { d_e: 2 }, f: 3 };
+    const seen: string[] = [];
+    visit<unknown>(data, (value, parents) => {
+      const key = parents.at(-1)?.key;
+      seen.push(String(key));
+      return typeof key === "string" && key.includes("_")
+        ? RENAME(key.replace("_", ""), CONTINUE)
+        : CONTINUE;
+    });
+    assertEquals(data, { a: 1, bc: { de: 2 }, f: 3 });
+    assertEquals(Object.keys(data), ["a", "bc", "f"]);
+    assertEquals(seen, ["undefined", "a", "b_c", "d_e", "f"]);
+  });
+
+  it("hands the new key to the children and the leave visitor", () => {
+    const data = { a: { b: 1 } };
+    const paths: string[] = [];
+    visit<unknown>(data, {
+      enter: (value, parents) =>
+        parents.at(-1)?.key === "a" ? RENAME("z", CONTINUE) : CONTINUE,
+      leave: (value, parents) => {
+        paths.push(parents.map(({ key }) => String(key)).join("."));
+      },
+    });
+    assertEquals(paths, ["z.b", "z", ""]);
+  });
+
+  it("renames Map entries, keeping their position", () => {
+    const data = new Map<unknown, unknown>([["a", 1], ["b", 2], ["c", 3]]);
+    visit<unknown>(
+      data,
+      (value) => value === 2 ? RENAME("x", CONTINUE) : CONTINUE,
+    );
+    assertEquals([...data], [["a", 1], ["x", 2], ["c", 3]]);
+  });
+
+  it("renames in copy-on-write traversals", () => {
+    const data = Object.freeze({ a: Object.freeze({ b: 1, c: 2 }) });
+    const result = transform<unknown>(
+      data,
+      (value) => value === 1 ? RENAME("x", CONTINUE) : CONTINUE,
+    );
+    assertEquals(result, { a: { x: 1, c: 2 } });
+    assertEquals(data, { a: { b: 1, c: 2 } });
+  });
+
+  it("rejects invalid renames", () => {
+    assertThrows(
+      () =>
+        visit<unknown>(
+          { a: 1, b: 2 },
+          (value) => value === 1 ? RENAME("b", CONTINUE) : CONTINUE,
+        ),
+      Error,
+      "Value already exists at $.b",
+    );
+    assertThrows(
+      () =>
+        visit<unknown>(
+          [1],
+          (value) => value === 1 ? RENAME("x", CONTINUE) : CONTINUE,
+        ),
+      Error,
+      "Only object properties and Map entries can be renamed, not $[0]",
+    );
+    assertThrows(
+      () => visit<unknown>({}, () => RENAME("x", CONTINUE)),
+      Error,
+      "Only object properties and Map entries can be renamed, not $",
+    );
+    assertThrows(
+      () =>
+        visit<unknown>(
+          new Set([1]),
+          (value) => value === 1 ? RENAME("x", CONTINUE) : CONTINUE,
+        ),
+      Error,
+      "Set members cannot be renamed",
+    );
+    assertThrows(
+      () =>
+        visit<unknown>(
+          { a: 1 },
+          (value) => value === 1 ? RENAME("x", CONTINUE) : CONTINUE,
+          { adapter: { ...defaultAdapter, renameChild: undefined } },
+        ),
+      Error,
+      "Adapter does not support renaming values",
+    );
+  });
+
+  it("moves values to new keys and to the end of arrays", () => {
+    const data: any = {
+      items: [{ note: true, id: 1 }, { id: 2 }, { note: true, id: 3 }],
+      notes: [],
+      meta: { title: "x" },
+    };
+    const seen: unknown[] = [];
+    visit<unknown>(data, (value: any, parents) => {
+      if (typeof value === "object" && value !== null && "id" in value) {
+        seen.push(value.id);
+      }
+      if (value?.note === true && parents.at(-2)?.key === "items") {
+        return MOVE(["notes", data.notes.length], CONTINUE);
+      }
+      if (value === "x") return MOVE(["title"], STEP_OVER);
+    });
+    assertEquals(data, {
+      items: [{ id: 2 }],
+      notes: [{ note: true, id: 1 }, { note: true, id: 3 }],
+      meta: {},
+      title: "x",
+    });
+    assertEquals(seen, [1, 2, 3, 1, 3]);
+  });
+
+  it("gathers values once when the visitor leaves them at their destination", () => {
+    const document: any = {
+      body: [{ type: "p" }, { type: "footnote" }, { type: "p" }],
+      footnotes: [],
+    };
+    let calls = 0;
+    visit<unknown>(document, (value: any, parents) => {
+      if (++calls > 100) throw new Error("Too many calls");
+      return value?.type === "footnote" && parents.at(-2)?.key === "body"
+        ? MOVE(["footnotes", document.footnotes.length], CONTINUE)
+        : CONTINUE;
+    });
+    assertEquals(document, {
+      body: [{ type: "p" }, { type: "p" }],
+      footnotes: [{ type: "footnote" }],
+    });
+  });
+
+  it("moves values to the end of their own array", () => {
+    const data: unknown[] = ["a", "b", "c"];
+    const seen: unknown[] = [];
+    visit<unknown>(data, (value, parents) => {
+      seen.push(value);
+      if (value === "a" && seen.length === 2) return MOVE([3], CONTINUE);
+    });
+    assertEquals(data, ["b", "c", "a"]);
+    assertEquals(seen, [data, "a", "b", "c", "a"]);
+  });
+
+  it("reports renames and moves as move operations", () => {
+    const data: any = { a: [1, 2], b: { c: 3 } };
+    const operations: JsonPatchOperation[] = [];
+    const changes: unknown[] = [];
+    const original = structuredClone(data);
+    let moved = false;
+    visit<unknown>(data, (value, parents) => {
+      if (value === 1 && !moved) {
+        moved = true;
+        return MOVE(["a", 2], CONTINUE);
+      }
+      if (value === 3) return RENAME("d", CONTINUE);
+    }, {
+      onPatch: (operation) => operations.push(operation),
+      onChange: ({ type, path, from }) => changes.push({ type, path, from }),
+    });
+    assertEquals(data, { a: [2, 1], b: { d: 3 } });
+    assertEquals(operations, [
+      { op: "move", from: "/a/0", path: "/a/1" },
+      { op: "move", from: "/b/c", path: "/b/d" },
+    ]);
+    assertEquals(changes, [
+      { type: "move", path: ["a", 1], from: ["a", 0] },
+      { type: "move", path: ["b", "d"], from: ["b", "c"] },
+    ]);
+    assertEquals(applyPatch(original, operations), data);
+  });
+
+  it("rejects invalid moves", () => {
+    const moving = (path: unknown[]) => (value: unknown) =>
+      value === 1 ? MOVE(path, CONTINUE) : CONTINUE;
+    assertThrows(
+      () => visit<unknown>({ a: 1, b: [] }, moving(["b", 1])),
+      Error,
+      "Values can only be moved to the end of arrays, not to $.b[1]",
+    );
+    assertThrows(
+      () => visit<unknown>({ a: 1, b: 2 }, moving(["b"])),
+      Error,
+      "Value already exists at $.b",
+    );
+    assertThrows(
+      () => visit<unknown>({ a: 1 }, moving(["c", "d"])),
+      Error,
+      "No container found to move a value to $.c.d",
+    );
+    assertThrows(
+      () =>
+        visit<unknown>(
+          { a: { b: 1 } },
+          (value, parents) =>
+            parents.at(-1)?.key === "a"
+              ? MOVE(["a", "b", "c"], CONTINUE)
+              : CONTINUE,
+        ),
+      Error,
+      "Value at $.a cannot be moved into itself",
+    );
+    assertThrows(
+      () => visit<unknown>({}, () => MOVE(["a"], CONTINUE)),
+      Error,
+      "The root cannot be moved",
+    );
+    for (
+      const [container, key] of [[new Set([1]), "new"], [new Uint8Array(2), 5]]
+    ) {
+      const data = { x: 1, c: container };
+      assertThrows(
+        () => visit<unknown>(data, moving(["c", key])),
+        Error,
+        "Values cannot be moved into a Set or a typed array",
+      );
+      assertEquals(data.x, 1);
+    }
+    assertThrows(
+      () => transform<unknown>({ a: 1 }, moving(["b"])),
+      Error,
+      "Values cannot be moved in copy-on-write traversals or dry runs",
+    );
+  });
+
+  it("composeVisitors keeps the first rename and stops at a move", () => {
+    const data: any = { a: 1, b: 2 };
+    const seen: unknown[] = [];
+    visit<unknown>(
+      data,
+      composeVisitors<unknown>(
+        (value) =>
+          value === 1
+            ? RENAME("x", CONTINUE)
+            : value === 2
+            ? MOVE(["y"], CONTINUE)
+            : CONTINUE,
+        (value) => {
+          seen.push(value);
+          return value === 1 ? RENAME("z", CONTINUE) : CONTINUE;
+        },
+      ),
+    );
+    assertEquals(data, { x: 1, y: 2 });
+    assertEquals(seen.slice(1), [1]);
+  });
+});
+
+describe("key enumeration", () => {
+  const keysOf = (data: unknown, options?: VisitOptions): unknown[] => {
+    const keys: unknown[] = [];
+    visit<unknown>(data, (value, parents) => {
+      if (parents.length > 0) keys.push(parents.at(-1)!.key);
+    }, options);
+    return keys;
+  };
+
+  it("visits symbol-keyed and non-enumerable properties on request", () => {
+    const tag = Symbol("tag");
+    const data: any = { a: 1, [tag]: { b: 2 } };
+    Object.defineProperty(data, "hidden", { value: 3, enumerable: false });
+    Object.defineProperty(data, tag, { enumerable: true });
+    assertEquals(keysOf(data), ["a"]);
+    assertEquals(keysOf(data, { includeSymbols: true }), ["a", tag, "b"]);
+    assertEquals(keysOf(data, { includeNonEnumerable: true }), ["a", "hidden"]);
+    assertEquals(
+      keysOf(data, { includeSymbols: true, includeNonEnumerable: true }),
+      ["a", "hidden", tag, "b"],
+    );
+    assertEquals(keysOf([1, 2], { includeNonEnumerable: true }), [0, 1]);
+  });
+
+  it("updates symbol-keyed properties", () => {
+    const tag = Symbol("tag");
+    const data: any = { [tag]: 1 };
+    visit<unknown>(
+      data,
+      (value) => value === 1 ? REPLACE(2, CONTINUE) : CONTINUE,
+      { includeSymbols: true },
+    );
+    assertEquals(data[tag], 2);
+  });
+
+  it("keeps property descriptors in copies and renames", () => {
+    const tag = Symbol("tag");
+    const data: any = Object.defineProperties({ a: 1 }, {
+      hidden: { value: 2, enumerable: false },
+      hidden2: { value: 3, enumerable: false },
+      [tag]: { value: 4, enumerable: false },
+    });
+    const options = { includeSymbols: true, includeNonEnumerable: true };
+    const result: any = transform<unknown>(
+      Object.freeze(data),
+      (value) => value === 2 ? REPLACE(20, CONTINUE) : CONTINUE,
+      options,
+    );
+    assertEquals(Object.keys(result), ["a"]);
+    assertEquals([result.hidden, result.hidden2, result[tag]], [20, 3, 4]);
+    assertEquals(
+      Object.getOwnPropertyDescriptor(result, "hidden")?.enumerable,
+      false,
+    );
+    const renamed: any = transform<unknown>(data, (value) => {
+      if (value === 2) return RENAME("secret", CONTINUE);
+      if (value === 4) return RENAME("other", CONTINUE);
+    }, options);
+    assertEquals(Reflect.ownKeys(renamed), ["a", "secret", "hidden2", "other"]);
+    assertEquals(Object.keys(renamed), ["a"]);
+  });
+
+  it("sorts keys", () => {
+    const data = {
+      b: 1,
+      a: { d: 2, c: 3 },
+      map: new Map<unknown, unknown>([[2, "x"], [10, "y"], [1, "z"]]),
+      list: [3, 1, 2],
+    };
+    assertEquals(keysOf(data, { sortKeys: true }), [
+      "a",
+      "c",
+      "d",
+      "b",
+      "list",
+      0,
+      1,
+      2,
+      "map",
+      1,
+      2,
+      10,
+    ]);
+    assertEquals(
+      keysOf(data.a, {
+        sortKeys: (a, b) => String(b).localeCompare(String(a)),
+      }),
+      ["d", "c"],
+    );
+  });
+
+  it("sorts concurrent query results in the same order", async () => {
+    const data = { b: { x: 1 }, a: { x: 2 } };
+    const results = await findAllAsync<unknown>(
+      data,
+      async (value) => typeof value === "number",
+      { concurrency: 4, sortKeys: true },
+    );
+    assertEquals(results.map(({ value }) => value), [2, 1]);
+  });
+
+  it("skips filtered keys and their children", () => {
+    const data = {
+      a: { constructor: { b: 1 }, c: 2 },
+      map: new Map([["constructor", 3], ["d", 4]]),
+      list: [5],
+    };
+    const seen: unknown[] = [];
+    visit<unknown>(data, (value) => {
+      if (typeof value === "number") seen.push(value);
+    }, { filterKeys: (key) => key !== "constructor" });
+    assertEquals(seen, [2, 4, 5]);
+  });
+
+  it("passes the container to the key filter", () => {
+    const data = { a: { secret: 1, b: 2 }, secret: 3 };
+    const seen: unknown[] = [];
+    visit<unknown>(data, (value) => {
+      if (typeof value === "number") seen.push(value);
+    }, { filterKeys: (key, node) => node === data || key !== "secret" });
+    assertEquals(seen, [2, 3]);
+  });
+
+  it("does not enter filtered children concurrently", async () => {
+    const calls: unknown[] = [];
+    await visitAsync<unknown>({ a: 1, b: 2, c: 3 }, async (value) => {
+      calls.push(value);
+    }, { concurrency: 4, filterKeys: (key) => key !== "b" });
+    assertEquals(calls.slice(1), [1, 3]);
   });
 });